@@ -0,0 +1,440 @@
+import { initializeApp } from 'firebase-admin/app';
+import { getFirestore, Transaction } from 'firebase-admin/firestore';
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import {
+  runMatchmaking,
+  repairAssignments,
+  analyzeMatchmakingConflict,
+  checkAvoidChoice,
+  buildMatchmakingReport,
+  validateAssignments,
+  MatchmakingReport,
+  AssignmentConstraints,
+  AssignmentChanges,
+} from '../../src/matchmaking';
+import {
+  Assignment,
+  DeadlineAction,
+  GameData,
+  GameStatus,
+  MatchmakingRun,
+  Player,
+  PrivatePlayerData,
+  PublicPlayerData,
+  SubmissionDoc,
+  WritingDeadline,
+} from '../../src/types';
+import {
+  assertHost,
+  getGamesCollectionPath,
+  getGameDocPath,
+  getPlayersCollectionPath,
+  getPrivatePlayerDataCollectionPath,
+  getSubmissionsCollectionPath,
+  getDraftsCollectionPath,
+  mergePlayers,
+} from './roomData';
+
+initializeApp();
+
+// The app uses the named database "christmas-metaphor" (see src/firebase.ts)
+const db = getFirestore('christmas-metaphor');
+
+interface PreviewMatchmakingRequest {
+  roomId: string;
+  seed?: number; // Re-roll with a specific seed; random when omitted
+}
+
+interface PreviewMatchmakingResponse {
+  assignments: Assignment[];
+  report: MatchmakingReport;
+  seed: number;
+}
+
+interface CommitAssignmentsRequest {
+  roomId: string;
+  assignments: Assignment[];
+  seed: number; // Seed of the previewed run the assignments started from
+}
+
+interface CheckAvoidRequest {
+  roomId: string;
+  targetId: string;
+}
+
+interface CheckAvoidResponse {
+  allowed: boolean;
+  reason: string | null; // Why the avoid would break matching; never names other players' avoids
+}
+
+interface RepairAssignmentsRequest {
+  roomId: string;
+  // A player about to be kicked: the repair treats them as gone, so the client only deletes
+  // their documents once the others have been re-balanced
+  excludePlayerId?: string;
+}
+
+interface RepairAssignmentsResponse {
+  changes: AssignmentChanges;
+  report: MatchmakingReport;
+}
+
+interface SetWritingDeadlineRequest {
+  roomId: string;
+  minutes: number | null; // From now; null clears the deadline
+  onExpire?: DeadlineAction;
+}
+
+interface SetWritingDeadlineResponse {
+  writingDeadline: WritingDeadline | null;
+}
+
+interface ExpireWritingDeadlineRequest {
+  roomId: string;
+}
+
+interface ExpireWritingDeadlineResponse {
+  advanced: boolean;
+}
+
+// Longest countdown a host can set
+const MAX_DEADLINE_MINUTES = 24 * 60;
+
+function requireRoomId(roomId: unknown): string {
+  if (typeof roomId !== 'string' || !roomId) {
+    throw new HttpsError('invalid-argument', 'roomId is required');
+  }
+  return roomId;
+}
+
+function getAssignmentConstraints(game: GameData): AssignmentConstraints {
+  return {
+    pairingRule: game.config.pairingRule,
+    includeThreeCycles: game.config.includeThreeCycles,
+    minReceived: game.config.minReceived,
+    groupRules: game.config.groupRules,
+  };
+}
+
+async function loadPlayers(transaction: Transaction, roomId: string): Promise<Player[]> {
+  const [playersSnapshot, privateSnapshot] = await Promise.all([
+    transaction.get(db.collection(getPlayersCollectionPath(roomId))),
+    transaction.get(db.collection(getPrivatePlayerDataCollectionPath(roomId))),
+  ]);
+  return mergePlayers(
+    playersSnapshot.docs.map(playerDoc => ({ id: playerDoc.id, data: playerDoc.data() as PublicPlayerData })),
+    privateSnapshot.docs.map(privateDoc => ({ id: privateDoc.id, data: privateDoc.data() as PrivatePlayerData }))
+  );
+}
+
+/**
+ * Load the game and its players inside a transaction, checking the caller is a host
+ * and the game is in the expected phase (PREFERENCES for matchmaking)
+ */
+async function loadRoomForMatchmaking(
+  transaction: Transaction,
+  roomId: string,
+  uid: string | undefined,
+  status: GameStatus = 'PREFERENCES'
+): Promise<{ game: GameData; players: Player[] }> {
+  const gameDoc = await transaction.get(db.doc(getGameDocPath(roomId)));
+  if (!gameDoc.exists) {
+    throw new HttpsError('not-found', 'Room not found');
+  }
+  const game = gameDoc.data() as GameData;
+  await assertHost(db, roomId, game, uid);
+
+  if (game.status !== status) {
+    throw new HttpsError('failed-precondition', `This can only be done during the ${status} phase`);
+  }
+
+  const players = await loadPlayers(transaction, roomId);
+
+  if (players.length < 2) {
+    throw new HttpsError('failed-precondition', 'Need at least 2 players to run matchmaking');
+  }
+
+  return { game, players };
+}
+
+/**
+ * Run matchmaking for a room on the server without writing anything, so the host
+ * can review the proposed assignments and their quality report. Host only.
+ * Fails with 'failed-precondition' and the conflict analysis as details when no valid
+ * assignment exists.
+ */
+export const previewRoomMatchmaking = onCall<PreviewMatchmakingRequest, Promise<PreviewMatchmakingResponse>>(
+  async (request) => {
+    const roomId = requireRoomId(request.data?.roomId);
+    const seed = request.data?.seed;
+    if (seed !== undefined && !Number.isInteger(seed)) {
+      throw new HttpsError('invalid-argument', 'seed must be an integer');
+    }
+
+    return db.runTransaction(async (transaction) => {
+      const { game, players } = await loadRoomForMatchmaking(transaction, roomId, request.auth?.uid);
+      const N = game.config.targetsPerPlayer || 2;
+      const constraints = getAssignmentConstraints(game);
+      const result = runMatchmaking(players, N, { ...constraints, seed, quiet: true });
+
+      if (!result.feasible) {
+        const analysis = analyzeMatchmakingConflict(players, N, { ...constraints, seed: result.seed });
+        throw new HttpsError('failed-precondition', analysis.summary, analysis);
+      }
+
+      return { assignments: result.assignments, report: result.report, seed: result.seed };
+    }, { readOnly: true });
+  }
+);
+
+/**
+ * Check whether the calling player skipping targetId would break matching, using every
+ * player's private avoids. Only a yes/no and an anonymized reason are returned, so players
+ * never learn who else skipped the target. Players only, during PREFERENCES.
+ */
+export const checkAvoid = onCall<CheckAvoidRequest, Promise<CheckAvoidResponse>>(async (request) => {
+  const roomId = requireRoomId(request.data?.roomId);
+  const targetId = request.data?.targetId;
+  if (typeof targetId !== 'string' || !targetId) {
+    throw new HttpsError('invalid-argument', 'targetId is required');
+  }
+  const uid = request.auth?.uid;
+  if (!uid) {
+    throw new HttpsError('unauthenticated', 'Sign in to play');
+  }
+
+  return db.runTransaction(async (transaction) => {
+    const gameDoc = await transaction.get(db.doc(getGameDocPath(roomId)));
+    if (!gameDoc.exists) {
+      throw new HttpsError('not-found', 'Room not found');
+    }
+    const game = gameDoc.data() as GameData;
+    if (game.status !== 'PREFERENCES') {
+      throw new HttpsError('failed-precondition', 'Skip this round choices can only change during the PREFERENCES phase');
+    }
+
+    const players = await loadPlayers(transaction, roomId);
+    if (!players.some(p => p.uid === uid)) {
+      throw new HttpsError('permission-denied', 'Only players in this room can check their choices');
+    }
+
+    const reason = checkAvoidChoice(players, uid, targetId, game.config.targetsPerPlayer || 2, getAssignmentConstraints(game));
+    return { allowed: reason === null, reason };
+  }, { readOnly: true });
+});
+
+function isSameAssignmentSet(first: Assignment[], second: Assignment[]): boolean {
+  const keys = new Set(first.map(({ writerId, targetId }) => `${writerId}->${targetId}`));
+  return first.length === second.length &&
+    second.every(({ writerId, targetId }) => keys.has(`${writerId}->${targetId}`));
+}
+
+/**
+ * Validate the host's chosen assignments against the current players, then write them
+ * all, record the seed and move the game to WRITING in a single transaction. Host only.
+ */
+export const commitRoomAssignments = onCall<CommitAssignmentsRequest>(async (request) => {
+  const roomId = requireRoomId(request.data?.roomId);
+  const assignments = request.data?.assignments;
+  const isAssignment = (value: Assignment) =>
+    !!value && typeof value.writerId === 'string' && typeof value.targetId === 'string';
+  if (!Array.isArray(assignments) || !assignments.every(isAssignment)) {
+    throw new HttpsError('invalid-argument', 'assignments must be a list of { writerId, targetId }');
+  }
+  const seed = request.data?.seed;
+  if (!Number.isInteger(seed)) {
+    throw new HttpsError('invalid-argument', 'seed must be an integer');
+  }
+
+  return db.runTransaction(async (transaction) => {
+    const { game, players } = await loadRoomForMatchmaking(transaction, roomId, request.auth?.uid);
+    const N = game.config.targetsPerPlayer || 2;
+    const constraints = getAssignmentConstraints(game);
+
+    // Players may have changed their avoids (or left) since the preview was made
+    const problems = validateAssignments(players, assignments, N, constraints);
+    if (problems.length > 0) {
+      throw new HttpsError('failed-precondition', 'These assignments are no longer valid', { problems });
+    }
+
+    // Group assignments by writer; every player is written, so stale assignments are cleared
+    const assignmentMap = new Map<string, string[]>(players.map(p => [p.uid, []]));
+    assignments.forEach(({ writerId, targetId }) => {
+      assignmentMap.get(writerId)!.push(targetId);
+    });
+
+    for (const [writerId, targetIds] of assignmentMap.entries()) {
+      transaction.update(db.doc(`${getPlayersCollectionPath(roomId)}/${writerId}`), { assignments: targetIds });
+    }
+    // Re-run with the seed to record whether it alone reproduces what was committed
+    const seededRun = runMatchmaking(players, N, { ...constraints, seed, quiet: true });
+    const matchmakingRun: MatchmakingRun = {
+      seed,
+      matchesSeededRun: seededRun.feasible && isSameAssignmentSet(seededRun.assignments, assignments),
+      committedAt: Date.now(),
+    };
+    // A deadline from an earlier writing round must not close this one
+    transaction.update(db.doc(getGameDocPath(roomId)), { status: 'WRITING', matchmakingRun, writingDeadline: null });
+
+    return { assignmentCount: assignments.length, report: buildMatchmakingReport(players, assignments) };
+  });
+});
+
+/**
+ * Fit the committed assignments to the current players during WRITING, e.g. to bring in
+ * players who joined late, changing as few unsubmitted assignments as possible and never
+ * a submitted one. Writes only the players whose assignments changed. Host only.
+ */
+export const repairRoomAssignments = onCall<RepairAssignmentsRequest, Promise<RepairAssignmentsResponse>>(
+  async (request) => {
+    const roomId = requireRoomId(request.data?.roomId);
+    const excludePlayerId = request.data?.excludePlayerId ?? null;
+    if (excludePlayerId !== null && (typeof excludePlayerId !== 'string' || !excludePlayerId)) {
+      throw new HttpsError('invalid-argument', 'excludePlayerId must be a player ID');
+    }
+
+    return db.runTransaction(async (transaction) => {
+      const { game, players: roomPlayers } = await loadRoomForMatchmaking(transaction, roomId, request.auth?.uid, 'WRITING');
+      const players = roomPlayers.filter(player => player.uid !== excludePlayerId);
+      const submissionsSnapshot = await transaction.get(db.collection(getSubmissionsCollectionPath(roomId)));
+      const N = game.config.targetsPerPlayer || 2;
+
+      // Assignments to or from an excluded player are already gone as far as the report goes
+      const currentAssignments = players.flatMap(player =>
+        player.data.assignments
+          .filter(targetId => targetId !== excludePlayerId)
+          .map(targetId => ({ writerId: player.uid, targetId }))
+      );
+      const submittedAssignments = submissionsSnapshot.docs.map(submissionDoc => {
+        const { writerId, targetId } = submissionDoc.data() as SubmissionDoc;
+        return { writerId, targetId };
+      });
+
+      const result = repairAssignments(players, currentAssignments, submittedAssignments, N, {
+        ...getAssignmentConstraints(game),
+        quiet: true,
+      });
+      if (!result.feasible) {
+        throw new HttpsError('failed-precondition', result.reason);
+      }
+
+      const { changes } = result;
+      const changedWriterIds = new Set([...changes.added, ...changes.removed].map(a => a.writerId));
+      for (const player of players) {
+        if (!changedWriterIds.has(player.uid)) continue;
+        const targetIds = result.assignments.filter(a => a.writerId === player.uid).map(a => a.targetId);
+        transaction.update(db.doc(`${getPlayersCollectionPath(roomId)}/${player.uid}`), { assignments: targetIds });
+      }
+      // Drafts for assignments that were taken away would never be submitted
+      for (const { writerId, targetId } of changes.removed) {
+        transaction.delete(db.doc(`${getDraftsCollectionPath(roomId)}/${writerId}_${targetId}`));
+      }
+      // The seed alone no longer reproduces the assignments
+      if (changedWriterIds.size > 0 && game.matchmakingRun) {
+        transaction.update(db.doc(getGameDocPath(roomId)), { 'matchmakingRun.matchesSeededRun': false });
+      }
+
+      return { changes, report: result.report };
+    });
+  }
+);
+
+/**
+ * Current time on the server's clock, so clients can show a countdown that matches the
+ * deadline the server enforces
+ */
+export const getServerTime = onCall<void, { now: number }>(() => ({ now: Date.now() }));
+
+/**
+ * Start, change or clear the writing countdown. The deadline is taken from the server's
+ * clock, so every device and the security rules agree on when it ends. Host only, during WRITING.
+ */
+export const setWritingDeadline = onCall<SetWritingDeadlineRequest, Promise<SetWritingDeadlineResponse>>(
+  async (request) => {
+    const roomId = requireRoomId(request.data?.roomId);
+    const minutes = request.data?.minutes ?? null;
+    if (minutes !== null && (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_DEADLINE_MINUTES)) {
+      throw new HttpsError('invalid-argument', `minutes must be a whole number from 1 to ${MAX_DEADLINE_MINUTES}`);
+    }
+    const onExpire = request.data?.onExpire ?? 'lock';
+    if (onExpire !== 'reveal' && onExpire !== 'lock') {
+      throw new HttpsError('invalid-argument', "onExpire must be 'reveal' or 'lock'");
+    }
+
+    return db.runTransaction(async (transaction) => {
+      const gameDocRef = db.doc(getGameDocPath(roomId));
+      const gameDoc = await transaction.get(gameDocRef);
+      if (!gameDoc.exists) {
+        throw new HttpsError('not-found', 'Room not found');
+      }
+      const game = gameDoc.data() as GameData;
+      await assertHost(db, roomId, game, request.auth?.uid);
+      if (game.status !== 'WRITING') {
+        throw new HttpsError('failed-precondition', 'The deadline can only be set during the WRITING phase');
+      }
+
+      const writingDeadline: WritingDeadline | null = minutes === null
+        ? null
+        : { endsAt: Date.now() + minutes * 60 * 1000, onExpire };
+      transaction.update(gameDocRef, { writingDeadline });
+      return { writingDeadline };
+    });
+  }
+);
+
+/**
+ * Move the game to REVEAL if its writing deadline is set to auto-advance and has passed.
+ * Returns whether it did; rooms before the deadline or already past WRITING are left alone.
+ */
+async function advancePastDeadline(roomId: string): Promise<boolean> {
+  return db.runTransaction(async (transaction) => {
+    const gameDocRef = db.doc(getGameDocPath(roomId));
+    const gameDoc = await transaction.get(gameDocRef);
+    if (!gameDoc.exists) {
+      throw new HttpsError('not-found', 'Room not found');
+    }
+    const game = gameDoc.data() as GameData;
+    const deadline = game.writingDeadline;
+    if (game.status !== 'WRITING' || deadline?.onExpire !== 'reveal' || Date.now() < deadline.endsAt) {
+      return false;
+    }
+
+    transaction.update(gameDocRef, { status: 'REVEAL', currentRevealId: null, writingDeadline: null });
+    return true;
+  });
+}
+
+/**
+ * Move the game to REVEAL once a writing deadline set to auto-advance has passed. Every
+ * connected client calls this when its countdown ends, so the game advances on time with
+ * no host watching; calls before the deadline or after the game moved on do nothing.
+ */
+export const expireWritingDeadline = onCall<ExpireWritingDeadlineRequest, Promise<ExpireWritingDeadlineResponse>>(
+  async (request) => {
+    const roomId = requireRoomId(request.data?.roomId);
+    if (!request.auth?.uid) {
+      throw new HttpsError('unauthenticated', 'Sign in to play');
+    }
+
+    return { advanced: await advancePastDeadline(roomId) };
+  }
+);
+
+/**
+ * Advance every room whose auto-advancing deadline has passed, once a minute, so games
+ * move on to REVEAL even when nobody has the room open. Lock-only deadlines also match
+ * the query and are skipped by advancePastDeadline.
+ */
+export const advanceExpiredWritingDeadlines = onSchedule('every 1 minutes', async () => {
+  const expired = await db.collection(getGamesCollectionPath())
+    .where('writingDeadline.endsAt', '<=', Date.now())
+    .get();
+
+  const results = await Promise.allSettled(expired.docs.map(gameDoc => advancePastDeadline(gameDoc.id)));
+  results.forEach((result, index) => {
+    if (result.status === 'rejected') {
+      console.error(`Error advancing room ${expired.docs[index].id} past its deadline:`, result.reason);
+    }
+  });
+});
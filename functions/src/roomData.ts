@@ -0,0 +1,57 @@
+import { Firestore } from 'firebase-admin/firestore';
+import { HttpsError } from 'firebase-functions/v2/https';
+import { GameData, Player, PrivatePlayerData, PublicPlayerData } from '../../src/types';
+
+// Mirrors the document layout used by src/hooks/useGame.ts
+const GAMES_COLLECTION = 'christmas-metaphor';
+
+export const getGamesCollectionPath = () => GAMES_COLLECTION;
+export const getGameDocPath = (roomId: string) => `${GAMES_COLLECTION}/${roomId}`;
+export const getPlayersCollectionPath = (roomId: string) => `${GAMES_COLLECTION}/${roomId}/players`;
+export const getPrivatePlayerDataCollectionPath = (roomId: string) => `${GAMES_COLLECTION}/${roomId}/privatePlayerData`;
+export const getSubmissionsCollectionPath = (roomId: string) => `${GAMES_COLLECTION}/${roomId}/submissions`;
+export const getDraftsCollectionPath = (roomId: string) => `${GAMES_COLLECTION}/${roomId}/drafts`;
+export const getCoHostsCollectionPath = (roomId: string) => `${GAMES_COLLECTION}/${roomId}/coHosts`;
+
+/**
+ * Throw unless the caller is the room owner or an invited co-host
+ * (same check as isHost() in firestore.rules)
+ */
+export async function assertHost(db: Firestore, roomId: string, game: GameData, uid: string | undefined) {
+  if (!uid) {
+    throw new HttpsError('unauthenticated', 'Sign in to manage this room');
+  }
+  if (game.ownerId === uid) {
+    return;
+  }
+  const coHostDoc = await db.doc(`${getCoHostsCollectionPath(roomId)}/${uid}`).get();
+  if (!coHostDoc.exists) {
+    throw new HttpsError('permission-denied', 'Only the host can perform this action');
+  }
+}
+
+/**
+ * Build the Player list matchmaking works on from the public and private player documents.
+ * Submissions are not needed for matchmaking and are left empty.
+ */
+export function mergePlayers(
+  publicDocs: Array<{ id: string; data: PublicPlayerData }>,
+  privateDocs: Array<{ id: string; data: PrivatePlayerData }>
+): Player[] {
+  const playerIds = new Set(publicDocs.map(p => p.id));
+  const privateById = new Map(privateDocs.map(p => [p.id, p.data]));
+
+  return publicDocs.map(({ id, data }) => ({
+    uid: id,
+    data: {
+      name: data.name,
+      preferences: (data.preferences || []).filter(targetId => playerIds.has(targetId)),
+      preferenceStrengths: data.preferenceStrengths || {},
+      assignments: data.assignments || [],
+      writeQuota: data.writeQuota ?? null,
+      avoids: (privateById.get(id)?.avoids || []).filter(targetId => playerIds.has(targetId)),
+      groups: privateById.get(id)?.groups || [],
+      submissions: {},
+    },
+  }));
+}
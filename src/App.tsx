@@ -1,4 +1,5 @@
-import { BrowserRouter, Routes, Route } from 'react-router-dom';
+import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
+import HomeView from './components/HomeView';
 import PlayerView from './components/PlayerView';
 import AdminView from './components/AdminView';
 import { ErrorBoundary } from './components/ErrorBoundary';
@@ -54,8 +55,10 @@ function App() {
     <ErrorBoundary>
       <BrowserRouter>
         <Routes>
-          <Route path="/" element={<PlayerView />} />
-          <Route path="/admin" element={<AdminView />} />
+          <Route path="/" element={<HomeView />} />
+          <Route path="/r/:code" element={<PlayerView />} />
+          <Route path="/r/:code/admin" element={<AdminView />} />
+          <Route path="*" element={<Navigate to="/" replace />} />
         </Routes>
       </BrowserRouter>
     </ErrorBoundary>
@@ -1,24 +1,74 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import React from 'react';
+import { Navigate, useParams, useSearchParams } from 'react-router-dom';
 import { useGame } from '../hooks/useGame';
-import { runMatchmaking, analyzeMatchmakingConflict } from '../matchmaking';
-import { GameData } from '../types';
-import { calculateOptimalConfig } from '../utils/optimalConfigCalculator';
+import { useCountdown } from '../hooks/useCountdown';
+import { Assignment, ContentFilter, DeadlineAction, GameData, GroupRule, PairingRule, ReflectionPrompt, ScreenCopy } from '../types';
+import {
+  AssignmentChanges,
+  assessFeasibility,
+  buildMatchmakingReport,
+  getWriteQuota,
+  validateAssignments,
+} from '../matchmaking';
+import MatchmakingReportPanel from './MatchmakingReportPanel';
+import AssignmentDraftEditor from './AssignmentDraftEditor';
+import AssignmentChangesPanel from './AssignmentChangesPanel';
+import GroupRulesEditor from './GroupRulesEditor';
+import SubmissionHistoryPanel from './SubmissionHistoryPanel';
+import SubmissionAnswers from './SubmissionAnswers';
+import PromptsEditor from './PromptsEditor';
+import DeadlineCountdown from './DeadlineCountdown';
+import WritingProgressPanel from './WritingProgressPanel';
+import ModerationQueuePanel from './ModerationQueuePanel';
+import { calculateOptimalConfig, ConfigSimulationResult, simulateOptimalConfig } from '../utils/optimalConfigCalculator';
+import { normalizeRoomCode } from '../utils/roomCode';
+import { generateSeed } from '../utils/random';
+import { getWritingProgress } from '../utils/writingProgress';
+import { parseFilterKeywords } from '../utils/contentFilter';
+import { getPrompts, validatePrompts } from '../prompts';
+import { getScreenCopy, PROMPT_TEMPLATES } from '../promptTemplates';
+
+// datetime-local inputs take local time without a timezone, e.g. "2025-12-24T18:30"
+const toDateTimeInputValue = (ms: number) => {
+  const date = new Date(ms);
+  date.setMinutes(date.getMinutes() - date.getTimezoneOffset());
+  return date.toISOString().slice(0, 16);
+};
 
 export default function AdminView() {
+  const { code = '' } = useParams<{ code: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const inviteToken = searchParams.get('invite');
   const {
+    roomId,
     gameData,
     players,
     loading,
+    roomNotFound,
+    isOwner,
+    isHost,
+    coHostIds,
     updateGameStatus,
     updateGameConfig,
+    submissionHistory,
+    moderateSubmission,
+    setWritingDeadline,
+    clockOffsetMs,
+    previewMatchmaking,
     writeAssignments,
+    repairAssignments,
     resetGame,
     setCurrentReveal,
     kickPlayer,
     resetAssignments,
     generateDummyPlayers,
-  } = useGame();
+    updatePlayerWriteQuota,
+    updatePlayerGroups,
+    createCoHostInvite,
+    acceptCoHostInvite,
+    removeCoHost,
+  } = useGame(normalizeRoomCode(code), { createIfMissing: true });
 
   const [targetsPerPlayer, setTargetsPerPlayer] = useState(
     gameData?.config.targetsPerPlayer || 2
@@ -29,11 +79,53 @@ export default function AdminView() {
   const [maxAvoids, setMaxAvoids] = useState(
     gameData?.config.maxAvoids || 5
   );
+  const [pairingRule, setPairingRule] = useState<PairingRule>(
+    gameData?.config.pairingRule || 'allow'
+  );
+  const [includeThreeCycles, setIncludeThreeCycles] = useState(
+    gameData?.config.includeThreeCycles || false
+  );
+  const [minReceived, setMinReceived] = useState(
+    gameData?.config.minReceived ?? 1
+  );
+  const [groupRules, setGroupRules] = useState<GroupRule[]>(
+    gameData?.config.groupRules || []
+  );
+  const [editLockAt, setEditLockAt] = useState<number | null>(
+    gameData?.config.editLockAt ?? null
+  );
+  const [prompts, setPrompts] = useState<ReflectionPrompt[]>(
+    getPrompts(gameData?.config)
+  );
+  const [templateId, setTemplateId] = useState(gameData?.config.templateId || '');
+  const [screenCopy, setScreenCopy] = useState<ScreenCopy>(getScreenCopy(gameData?.config));
+  const [contentFilter, setContentFilter] = useState<ContentFilter>(
+    gameData?.config.contentFilter || { enabled: false, keywords: [] }
+  );
   const [isRunningMatchmaking, setIsRunningMatchmaking] = useState(false);
   const [matchmakingError, setMatchmakingError] = useState<React.ReactNode | null>(null);
+  // Draft assignments from the last preview; the host can edit them before committing
+  const [draft, setDraft] = useState<{ assignments: Assignment[]; seed: number; solverTimeMs: number } | null>(null);
+  const [isCommittingAssignments, setIsCommittingAssignments] = useState(false);
+  const [seedInput, setSeedInput] = useState('');
   const [kickingPlayerId, setKickingPlayerId] = useState<string | null>(null);
   const [isResettingAssignments, setIsResettingAssignments] = useState(false);
+  const [isAssigningLatePlayers, setIsAssigningLatePlayers] = useState(false);
+  const [configSimulation, setConfigSimulation] = useState<ConfigSimulationResult | null>(null);
+  const [isSimulatingConfig, setIsSimulatingConfig] = useState(false);
+  // What the last late-joiner assignment or mid-game kick changed, shown until dismissed
+  const [assignmentRepair, setAssignmentRepair] = useState<{ title: string; changes: AssignmentChanges } | null>(null);
+  const [deadlineMinutes, setDeadlineMinutes] = useState(15);
+  const [deadlineAction, setDeadlineAction] = useState<DeadlineAction>('lock');
+  const [isSettingDeadline, setIsSettingDeadline] = useState(false);
   const [isGeneratingDummyPlayers, setIsGeneratingDummyPlayers] = useState(false);
+  const [isAcceptingInvite, setIsAcceptingInvite] = useState(false);
+  const [inviteError, setInviteError] = useState<string | null>(null);
+  const [coHostInviteLink, setCoHostInviteLink] = useState<string | null>(null);
+  const inviteAttemptedRef = useRef(false);
+
+  const writingDeadline = gameData?.status === 'WRITING' ? gameData.writingDeadline : null;
+  const deadlineRemainingMs = useCountdown(writingDeadline?.endsAt, clockOffsetMs);
 
   // Update local state when gameData changes
   useEffect(() => {
@@ -41,9 +133,91 @@ export default function AdminView() {
       setTargetsPerPlayer(gameData.config.targetsPerPlayer);
       setMaxPreferences(gameData.config.maxPreferences);
       setMaxAvoids(gameData.config.maxAvoids);
+      setPairingRule(gameData.config.pairingRule || 'allow');
+      setIncludeThreeCycles(gameData.config.includeThreeCycles || false);
+      setMinReceived(gameData.config.minReceived ?? 1);
+      setGroupRules(gameData.config.groupRules || []);
+      setEditLockAt(gameData.config.editLockAt ?? null);
+      setPrompts(getPrompts(gameData.config));
+      setTemplateId(gameData.config.templateId || '');
+      setScreenCopy(getScreenCopy(gameData.config));
+      setContentFilter(gameData.config.contentFilter || { enabled: false, keywords: [] });
     }
   }, [gameData?.config]);
 
+  // Offer the last committed seed for reproducing that run
+  useEffect(() => {
+    if (gameData?.matchmakingRun) {
+      setSeedInput(String(gameData.matchmakingRun.seed));
+    }
+  }, [gameData?.matchmakingRun]);
+
+  // Re-check the draft live, since the host edits it and players may change their avoids
+  const draftProblems = useMemo(
+    () => draft
+      ? validateAssignments(players, draft.assignments, gameData?.config.targetsPerPlayer || 2, {
+        pairingRule: gameData?.config.pairingRule,
+        includeThreeCycles: gameData?.config.includeThreeCycles,
+        minReceived: gameData?.config.minReceived,
+        groupRules: gameData?.config.groupRules,
+      })
+      : [],
+    [draft, players, gameData?.config]
+  );
+  const writingProgress = useMemo(
+    () => gameData?.status === 'WRITING' ? getWritingProgress(players) : null,
+    [players, gameData?.status]
+  );
+  // Live feasibility while players edit their choices, re-checked on every snapshot
+  const feasibility = useMemo(
+    () => gameData?.status === 'PREFERENCES'
+      ? assessFeasibility(players, gameData.config.targetsPerPlayer || 2, {
+        minReceived: gameData.config.minReceived,
+        groupRules: gameData.config.groupRules,
+      })
+      : null,
+    [players, gameData?.status, gameData?.config]
+  );
+  const draftReport = useMemo(
+    () => draft ? buildMatchmakingReport(players, draft.assignments, draft.solverTimeMs) : null,
+    [draft, players]
+  );
+
+  // Redeem a co-host invite link (/r/:code/admin?invite=TOKEN)
+  useEffect(() => {
+    if (!inviteToken || loading || !gameData || isHost || inviteAttemptedRef.current) {
+      return;
+    }
+    inviteAttemptedRef.current = true;
+    setIsAcceptingInvite(true);
+    acceptCoHostInvite(inviteToken)
+      .then(() => setSearchParams({}, { replace: true }))
+      .catch((err: Error) => setInviteError(err.message || 'Failed to accept co-host invite'))
+      .finally(() => setIsAcceptingInvite(false));
+  }, [inviteToken, loading, gameData, isHost, acceptCoHostInvite, setSearchParams]);
+
+  const handleCreateCoHostInvite = async () => {
+    try {
+      const token = await createCoHostInvite();
+      setCoHostInviteLink(`${window.location.origin}/r/${roomId}/admin?invite=${token}`);
+    } catch (err) {
+      console.error('Error creating co-host invite:', err);
+      alert('Failed to create co-host invite');
+    }
+  };
+
+  const handleRemoveCoHost = async (coHostId: string) => {
+    if (!confirm('Remove this co-host? They will lose access to the admin panel.')) {
+      return;
+    }
+    try {
+      await removeCoHost(coHostId);
+    } catch (err) {
+      console.error('Error removing co-host:', err);
+      alert('Failed to remove co-host');
+    }
+  };
+
   const handleResetGame = async () => {
     if (confirm('Are you sure you want to reset the game? This will delete all players and data.')) {
       try {
@@ -57,11 +231,25 @@ export default function AdminView() {
   };
 
   const handleUpdateConfig = async () => {
+    const promptProblem = validatePrompts(prompts);
+    if (promptProblem) {
+      alert(promptProblem);
+      return;
+    }
     try {
       await updateGameConfig({ 
         targetsPerPlayer,
         maxPreferences,
         maxAvoids,
+        pairingRule,
+        includeThreeCycles,
+        minReceived,
+        groupRules,
+        editLockAt,
+        prompts,
+        templateId,
+        screenCopy,
+        contentFilter,
       });
       alert('Configuration updated!');
     } catch (err) {
@@ -70,6 +258,18 @@ export default function AdminView() {
     }
   };
 
+  // Fill in a template's prompts, copy and limits; nothing is saved until Update Config
+  const handleApplyTemplate = (id: string) => {
+    const template = PROMPT_TEMPLATES.find(t => t.id === id);
+    if (!template) return;
+    setTemplateId(template.id);
+    setPrompts(template.prompts);
+    setScreenCopy(template.screenCopy);
+    setTargetsPerPlayer(template.config.targetsPerPlayer);
+    setMaxPreferences(template.config.maxPreferences);
+    setMaxAvoids(template.config.maxAvoids);
+  };
+
   const handleStartPreferences = async () => {
     try {
       await updateGameStatus('PREFERENCES');
@@ -79,7 +279,7 @@ export default function AdminView() {
     }
   };
 
-  const handleRunMatchmaking = async () => {
+  const handleRunMatchmaking = async (seed?: number) => {
     if (players.length < 2) {
       alert('Need at least 2 players to run matchmaking');
       return;
@@ -87,14 +287,15 @@ export default function AdminView() {
 
     setIsRunningMatchmaking(true);
     setMatchmakingError(null);
+    setDraft(null);
 
     try {
-      const N = gameData?.config.targetsPerPlayer || 2;
-      const assignments = runMatchmaking(players, N);
+      // Matchmaking runs on the server; nothing is written until the host commits
+      const outcome = await previewMatchmaking(seed);
 
-      if (!assignments) {
-        // Analyze the conflict and provide specific suggestions
-        const analysis = analyzeMatchmakingConflict(players, N);
+      if (!outcome.ok) {
+        // The server analyzed the conflict and provided specific suggestions
+        const { analysis } = outcome;
         
         let errorMsg = 'Conflict Detected!\n\n';
         errorMsg += analysis.summary + '\n\n';
@@ -102,10 +303,7 @@ export default function AdminView() {
         if (analysis.suggestions.length > 0) {
           errorMsg += 'Suggested actions:\n';
           analysis.suggestions.forEach((suggestion, index) => {
-            const actionText = suggestion.action === 'remove_avoid' 
-              ? `Remove Skip this round for ${suggestion.targetPlayerName}`
-              : `Add ${suggestion.targetPlayerName} to Merry Picks`;
-            errorMsg += `${index + 1}. ${suggestion.playerName}: ${actionText}\n`;
+            errorMsg += `${index + 1}. ${suggestion.playerName}: Remove Skip this round for ${suggestion.targetPlayerName}\n`;
           });
         } else {
           errorMsg += 'Try lowering N or having players adjust their preferences.';
@@ -116,20 +314,24 @@ export default function AdminView() {
           <div className="space-y-3">
             <p className="font-semibold text-red-700">Conflict Detected!</p>
             <p className="text-sm">{analysis.summary}</p>
+            {analysis.violations.map((violation, index) => (
+              <div key={index} className="bg-white rounded-lg p-3 border-2 border-red-300 text-sm">
+                <p className="font-semibold mb-1">
+                  {violation.side === 'writers' ? '✍️ Writers who cannot be placed' : '🎯 Players who cannot get enough writers'}
+                  {' '}({violation.available}/{violation.required} assignments)
+                </p>
+                <p className="text-gray-700">{violation.playerNames.join(', ')}</p>
+              </div>
+            ))}
             {analysis.suggestions.length > 0 && (
               <div className="mt-4">
-                <p className="font-semibold text-sm mb-2">Suggested actions:</p>
+                <p className="font-semibold text-sm mb-2">Smallest fix:</p>
                 <ul className="list-disc list-inside space-y-1 text-sm">
-                  {analysis.suggestions.map((suggestion, index) => {
-                    const actionText = suggestion.action === 'remove_avoid' 
-                      ? `Remove Skip this round for "${suggestion.targetPlayerName}"`
-                      : `Add "${suggestion.targetPlayerName}" to Merry Picks`;
-                    return (
-                      <li key={index} className="text-gray-700">
-                        <span className="font-medium">{suggestion.playerName}</span>: {actionText}
-                      </li>
-                    );
-                  })}
+                  {analysis.suggestions.map((suggestion, index) => (
+                    <li key={index} className="text-gray-700">
+                      <span className="font-medium">{suggestion.playerName}</span>: Remove Skip this round for "{suggestion.targetPlayerName}"
+                    </li>
+                  ))}
                 </ul>
               </div>
             )}
@@ -142,13 +344,7 @@ export default function AdminView() {
         return;
       }
 
-      // Write assignments to Firestore
-      await writeAssignments(assignments);
-
-      // Update status to WRITING
-      await updateGameStatus('WRITING');
-
-      alert(`Matchmaking successful! ${assignments.length} assignments created.`);
+      setDraft({ assignments: outcome.assignments, seed: outcome.seed, solverTimeMs: outcome.report.solverTimeMs });
     } catch (err) {
       console.error('Error running matchmaking:', err);
       const errorMsg = 'Failed to run matchmaking. Please try again.';
@@ -159,7 +355,100 @@ export default function AdminView() {
     }
   };
 
+  const handleCommitAssignments = async () => {
+    if (!draft || draftProblems.length > 0) return;
+
+    setIsCommittingAssignments(true);
+    try {
+      // Write assignments and move to WRITING
+      await writeAssignments(draft.assignments, draft.seed);
+      alert(`Matchmaking successful! ${draft.assignments.length} assignments created.`);
+      setDraft(null);
+    } catch (err) {
+      console.error('Error committing assignments:', err);
+      alert(err instanceof Error ? err.message : 'Failed to commit assignments');
+    } finally {
+      setIsCommittingAssignments(false);
+    }
+  };
+
+  const handleUpdateWriteQuota = async (playerId: string, value: string) => {
+    try {
+      await updatePlayerWriteQuota(playerId, value === '' ? null : parseInt(value));
+    } catch (err) {
+      console.error('Error updating write quota:', err);
+      alert(err instanceof Error ? err.message : 'Failed to update write quota');
+    }
+  };
+
+  const handleUpdateGroups = async (playerId: string, value: string) => {
+    try {
+      await updatePlayerGroups(playerId, value.split(','));
+    } catch (err) {
+      console.error('Error updating player groups:', err);
+      alert(err instanceof Error ? err.message : 'Failed to update player groups');
+    }
+  };
+
+  const handleSimulateConfig = async () => {
+    setIsSimulatingConfig(true);
+    try {
+      setConfigSimulation(await simulateOptimalConfig(players, targetsPerPlayer, {
+        maxPreferences,
+        maxAvoids,
+        pairingRule,
+        includeThreeCycles,
+        minReceived,
+        groupRules,
+      }));
+    } catch (err) {
+      console.error('Error simulating configs:', err);
+      alert('Failed to simulate configs');
+    } finally {
+      setIsSimulatingConfig(false);
+    }
+  };
+
+  const handleReproduceRun = () => {
+    const seed = Number(seedInput.trim());
+    if (!seedInput.trim() || !Number.isInteger(seed)) {
+      alert('Enter a whole-number seed to reproduce');
+      return;
+    }
+    handleRunMatchmaking(seed);
+  };
+
+  const handleAssignLatePlayers = async () => {
+    setIsAssigningLatePlayers(true);
+    try {
+      const changes = await repairAssignments();
+      setAssignmentRepair({ title: 'Late joiners assigned', changes });
+    } catch (err) {
+      console.error('Error assigning late joiners:', err);
+      alert(err instanceof Error ? err.message : 'Failed to assign late joiners');
+    } finally {
+      setIsAssigningLatePlayers(false);
+    }
+  };
+
+  // Start (or restart) the countdown, or clear it with null
+  const handleSetDeadline = async (minutes: number | null) => {
+    setIsSettingDeadline(true);
+    try {
+      await setWritingDeadline(minutes, deadlineAction);
+    } catch (err) {
+      console.error('Error setting writing deadline:', err);
+      alert(err instanceof Error ? err.message : 'Failed to set the writing deadline');
+    } finally {
+      setIsSettingDeadline(false);
+    }
+  };
+
   const handleStartReveal = async () => {
+    const missing = writingProgress ? writingProgress.assigned - writingProgress.submitted : 0;
+    if (missing > 0 && !confirm(`${missing} reflection(s) have not been submitted yet. Start the reveal anyway?`)) {
+      return;
+    }
     try {
       await updateGameStatus('REVEAL');
     } catch (err) {
@@ -186,6 +475,13 @@ export default function AdminView() {
   };
 
   const handleRevealPlayer = async (playerId: string) => {
+    const flaggedCount = players.filter(writer => {
+      const submission = writer.data.submissions[playerId];
+      return submission?.flagged && !submission.hidden;
+    }).length;
+    if (flaggedCount > 0 && !confirm(`${flaggedCount} flagged reflection(s) will be shown. Review them in the Moderation section first, or reveal anyway?`)) {
+      return;
+    }
     try {
       await setCurrentReveal(playerId);
     } catch (err) {
@@ -211,7 +507,40 @@ export default function AdminView() {
     );
   }
 
+  // Only reached for malformed codes, since the host view creates missing rooms
+  if (roomNotFound) {
+    return <Navigate to="/" replace />;
+  }
+
+  if (!isHost) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-red-50 to-green-50 flex items-center justify-center p-4">
+        <div className="text-center max-w-md">
+          <div className="text-7xl mb-4">🔒</div>
+          <h1 className="text-3xl font-bold text-red-600 mb-3">Host access required</h1>
+          {isAcceptingInvite ? (
+            <p className="text-gray-700">⏳ Accepting co-host invite...</p>
+          ) : (
+            <p className="text-gray-700">
+              {inviteError || 'Only the host of this room and invited co-hosts can open the admin panel.'}
+            </p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
   const currentStatus = gameData?.status || 'LOBBY';
+  // Players who joined after assignments were committed: nobody writes about them and they write about nobody.
+  // Uses the saved config, not the unsaved form values, since that is what the repair applies.
+  const savedTargetsPerPlayer = gameData?.config.targetsPerPlayer || 2;
+  const savedMinReceived = gameData?.config.minReceived ?? 1;
+  const latePlayers = players.filter(player =>
+    (getWriteQuota(player, savedTargetsPerPlayer) > 0 || savedMinReceived > 0) &&
+    player.data.assignments.length === 0 &&
+    !players.some(p => p.data.assignments.includes(player.uid))
+  );
+  const joinLink = `${window.location.origin}/r/${roomId}`;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-red-50 via-white to-green-50 p-4 py-8 relative overflow-hidden">
@@ -232,11 +561,25 @@ export default function AdminView() {
               Admin Panel
             </h1>
             <p className="text-lg text-gray-700 font-medium mb-4">✨ Control the Reflections game ✨</p>
-            <div className="mt-4">
+            <div className="mt-4 flex flex-wrap justify-center gap-3">
               <span className="inline-block px-6 py-3 bg-gradient-to-r from-red-100 to-green-100 text-red-700 rounded-xl font-bold text-lg border-3 border-red-300 shadow-md">
                 🎯 Status: {currentStatus}
               </span>
+              <span className="inline-block px-6 py-3 bg-gradient-to-r from-green-100 to-blue-100 text-green-700 rounded-xl font-bold text-lg border-3 border-green-300 shadow-md">
+                🔑 Room: <span className="font-mono tracking-widest">{roomId}</span>
+              </span>
             </div>
+            <button
+              onClick={() => {
+                navigator.clipboard.writeText(joinLink).then(
+                  () => alert('Join link copied!'),
+                  () => alert(`Share this link with players: ${joinLink}`)
+                );
+              }}
+              className="mt-3 text-sm text-blue-700 underline font-semibold"
+            >
+              📋 Copy player join link
+            </button>
           </div>
 
           {/* Optimal Config Calculator */}
@@ -246,7 +589,12 @@ export default function AdminView() {
                 <span className="text-3xl">📊</span> Optimal Config Calculator
               </h2>
               {(() => {
-                const optimal = calculateOptimalConfig(players.length, targetsPerPlayer);
+                const optimal = calculateOptimalConfig(
+                  players.length,
+                  targetsPerPlayer,
+                  players.map(p => getWriteQuota(p, targetsPerPlayer)),
+                  minReceived
+                );
                 return (
                   <div className="space-y-4">
                     <div className="bg-white rounded-xl p-5 border-3 border-blue-300 shadow-md">
@@ -287,6 +635,66 @@ export default function AdminView() {
                   </div>
                 );
               })()}
+
+              <div className="bg-white rounded-xl p-5 border-3 border-purple-300 shadow-md mt-4 space-y-4">
+                <div className="flex items-center justify-between gap-4">
+                  <p className="text-sm text-gray-700">
+                    <span className="font-bold">🎲 Simulate:</span> run matchmaking on many random games with these players and the settings below to measure what actually works.
+                  </p>
+                  <button
+                    onClick={handleSimulateConfig}
+                    disabled={isSimulatingConfig || players.length < 2}
+                    className="px-4 py-2 bg-gradient-to-r from-purple-600 to-purple-700 text-white rounded-xl font-bold hover:from-purple-700 hover:to-purple-800 transition-all shadow-lg disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+                  >
+                    {isSimulatingConfig ? '⏳ Simulating...' : '🎲 Run Simulations'}
+                  </button>
+                </div>
+                {configSimulation && (
+                  <>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="bg-gradient-to-r from-gray-50 to-gray-100 p-4 rounded-xl border-2 border-gray-300">
+                        <p className="text-sm font-semibold text-gray-700 mb-1">Current config success rate</p>
+                        <p className="text-3xl font-bold text-gray-700">{Math.round(configSimulation.current.successRate * 100)}%</p>
+                        <p className="text-xs text-gray-600">
+                          N = {configSimulation.current.targetsPerPlayer}, ⭐ {configSimulation.current.maxPreferences}, ⏭️ {configSimulation.current.maxAvoids}
+                        </p>
+                      </div>
+                      <div className="bg-gradient-to-r from-purple-50 to-purple-100 p-4 rounded-xl border-2 border-purple-300">
+                        <p className="text-sm font-semibold text-gray-700 mb-1">Recommended config</p>
+                        {configSimulation.recommended ? (
+                          <>
+                            <p className="text-3xl font-bold text-purple-700">{Math.round(configSimulation.recommended.successRate * 100)}%</p>
+                            <p className="text-xs text-gray-600">
+                              N = {configSimulation.recommended.targetsPerPlayer}, ⭐ {configSimulation.recommended.maxPreferences}, ⏭️ {configSimulation.recommended.maxAvoids}
+                            </p>
+                          </>
+                        ) : (
+                          <p className="text-sm text-red-700 font-semibold">No candidate is reliable enough</p>
+                        )}
+                      </div>
+                    </div>
+                    {configSimulation.recommended && (
+                      <button
+                        onClick={() => {
+                          const { recommended } = configSimulation;
+                          if (!recommended) return;
+                          setTargetsPerPlayer(recommended.targetsPerPlayer);
+                          setMaxPreferences(recommended.maxPreferences);
+                          setMaxAvoids(recommended.maxAvoids);
+                        }}
+                        className="w-full px-4 py-3 bg-gradient-to-r from-purple-600 to-purple-700 text-white rounded-xl hover:from-purple-700 hover:to-purple-800 transition-all transform hover:scale-105 font-bold shadow-lg"
+                      >
+                        ✨ Apply Simulated Config
+                      </button>
+                    )}
+                    <ul className="text-sm text-gray-600 space-y-2 list-disc list-inside">
+                      {configSimulation.reasoning.map((reason, index) => (
+                        <li key={index}>{reason}</li>
+                      ))}
+                    </ul>
+                  </>
+                )}
+              </div>
             </div>
           )}
 
@@ -328,7 +736,7 @@ export default function AdminView() {
                 <div className="mb-4">
                   <button
                     onClick={async () => {
-                      if (!confirm('Are you sure you want to reset all assignments? This will clear all writing assignments AND all submitted writings (impressions and realities). Players will remain in the game, but they will need to write again.')) {
+                      if (!confirm('Are you sure you want to reset all assignments? This will clear all writing assignments AND all submitted writings. Players will remain in the game, but they will need to write again.')) {
                         return;
                       }
                       setIsResettingAssignments(true);
@@ -352,6 +760,30 @@ export default function AdminView() {
               
               <div className="space-y-4">
                 <div className="space-y-3">
+                  <div className="flex items-start gap-4">
+                    <label className="font-semibold text-gray-700 w-48 pt-2">Template:</label>
+                    <div className="flex-1 space-y-1">
+                      <select
+                        value={templateId}
+                        disabled={currentStatus === 'WRITING' || currentStatus === 'REVEAL'}
+                        onChange={(e) => handleApplyTemplate(e.target.value)}
+                        className="px-3 py-2 border-3 border-red-300 rounded-xl focus:border-red-500 focus:ring-4 focus:ring-red-200 focus:outline-none shadow-inner disabled:opacity-50"
+                      >
+                        <option value="" disabled>Custom</option>
+                        {PROMPT_TEMPLATES.map(template => (
+                          <option key={template.id} value={template.id}>{template.name}</option>
+                        ))}
+                      </select>
+                      <p className="text-sm text-gray-600">
+                        {PROMPT_TEMPLATES.find(t => t.id === templateId)?.description ||
+                          'Pick a template to fill in the prompts, screen headings and limits below'}
+                      </p>
+                      <p className="text-sm text-gray-500">
+                        Players see "{screenCopy.preferencesTitle}" while choosing and "{screenCopy.writingTitle}" while writing.
+                      </p>
+                    </div>
+                  </div>
+
                   <div className="flex items-center gap-4">
                     <label className="font-semibold text-gray-700 w-48">Targets per Player:</label>
                     <input
@@ -389,7 +821,107 @@ export default function AdminView() {
                     />
                     <span className="text-sm text-gray-600">Max Skip this round per player (guaranteed)</span>
                   </div>
-                  
+
+                  <div className="flex items-center gap-4">
+                    <label className="font-semibold text-gray-700 w-48">Min Reflections Received:</label>
+                    <input
+                      type="number"
+                      min="0"
+                      max="10"
+                      value={minReceived}
+                      onChange={(e) => setMinReceived(Math.max(0, parseInt(e.target.value) || 0))}
+                      className="w-20 px-3 py-2 border-3 border-red-300 rounded-xl focus:border-red-500 focus:ring-4 focus:ring-red-200 focus:outline-none shadow-inner"
+                    />
+                    <span className="text-sm text-gray-600">Guaranteed for everyone, even with custom write quotas</span>
+                  </div>
+
+                  <div className="flex items-center gap-4">
+                    <label className="font-semibold text-gray-700 w-48">Writing about each other:</label>
+                    <select
+                      value={pairingRule}
+                      onChange={(e) => setPairingRule(e.target.value as PairingRule)}
+                      className="px-3 py-2 border-3 border-red-300 rounded-xl focus:border-red-500 focus:ring-4 focus:ring-red-200 focus:outline-none shadow-inner"
+                    >
+                      <option value="allow">Allow</option>
+                      <option value="penalize">Avoid when possible</option>
+                      <option value="forbid">Never</option>
+                    </select>
+                    <span className="text-sm text-gray-600">A → B and B → A make writers easy to guess</span>
+                  </div>
+
+                  <label className="flex items-center gap-3 ml-52">
+                    <input
+                      type="checkbox"
+                      checked={includeThreeCycles}
+                      disabled={pairingRule === 'allow'}
+                      onChange={(e) => setIncludeThreeCycles(e.target.checked)}
+                      className="w-5 h-5"
+                    />
+                    <span className="text-sm text-gray-700">Also apply to circles of three (A → B → C → A)</span>
+                  </label>
+
+                  <div className="flex items-start gap-4">
+                    <label className="font-semibold text-gray-700 w-48 pt-2">Group rules:</label>
+                    <div className="flex-1">
+                      <GroupRulesEditor
+                        rules={groupRules}
+                        groupNames={[...new Set(players.flatMap(p => p.data.groups))].sort()}
+                        onChange={setGroupRules}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="flex items-center gap-4">
+                    <label className="font-semibold text-gray-700 w-48">Lock edits at:</label>
+                    <input
+                      type="datetime-local"
+                      value={editLockAt ? toDateTimeInputValue(editLockAt) : ''}
+                      onChange={(e) => setEditLockAt(e.target.value ? new Date(e.target.value).getTime() : null)}
+                      className="px-3 py-2 border-3 border-red-300 rounded-xl focus:border-red-500 focus:ring-4 focus:ring-red-200 focus:outline-none shadow-inner"
+                    />
+                    <span className="text-sm text-gray-600">Writers can edit or withdraw submissions until then (or the reveal)</span>
+                  </div>
+
+                  <div className="flex items-start gap-4">
+                    <label className="font-semibold text-gray-700 w-48 pt-2">Reflection prompts:</label>
+                    <div className="flex-1 space-y-2">
+                      {(currentStatus === 'WRITING' || currentStatus === 'REVEAL') && (
+                        <p className="text-sm text-gray-500">Prompts are fixed once writing has started.</p>
+                      )}
+                      <PromptsEditor
+                        prompts={prompts}
+                        disabled={currentStatus === 'WRITING' || currentStatus === 'REVEAL'}
+                        onChange={(next) => {
+                          setPrompts(next);
+                          setTemplateId('');
+                        }}
+                      />
+                    </div>
+                  </div>
+
+                  <div className="flex items-start gap-4">
+                    <label className="font-semibold text-gray-700 w-48 pt-2">Content filter:</label>
+                    <div className="flex-1 space-y-2">
+                      <label className="flex items-center gap-3 pt-2">
+                        <input
+                          type="checkbox"
+                          checked={contentFilter.enabled}
+                          onChange={(e) => setContentFilter({ ...contentFilter, enabled: e.target.checked })}
+                          className="w-5 h-5"
+                        />
+                        <span className="text-sm text-gray-700">Flag reflections with profanity or these extra words for review</span>
+                      </label>
+                      <input
+                        key={contentFilter.keywords.join(', ')}
+                        defaultValue={contentFilter.keywords.join(', ')}
+                        onBlur={(e) => setContentFilter({ ...contentFilter, keywords: parseFilterKeywords(e.target.value) })}
+                        disabled={!contentFilter.enabled}
+                        placeholder="e.g. nickname, inside joke"
+                        className="w-full px-3 py-2 border-3 border-red-300 rounded-xl focus:border-red-500 focus:ring-4 focus:ring-red-200 focus:outline-none shadow-inner disabled:opacity-50"
+                      />
+                    </div>
+                  </div>
+
                   <button
                     onClick={handleUpdateConfig}
                     className="w-full px-4 py-3 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-xl hover:from-blue-700 hover:to-blue-800 transition-all transform hover:scale-105 font-bold shadow-lg"
@@ -412,6 +944,16 @@ export default function AdminView() {
               <h2 className="text-xl font-bold text-gray-800 mb-4">Phase Controls</h2>
               
               <div className="space-y-3">
+                {gameData?.matchmakingRun && (
+                  <p className="text-sm text-gray-600">
+                    🎲 Last committed run used seed{' '}
+                    <span className="font-mono font-semibold text-gray-800">{gameData.matchmakingRun.seed}</span>
+                    {gameData.matchmakingRun.matchesSeededRun
+                      ? ' and can be reproduced exactly.'
+                      : ' but was edited by hand (or players changed) before committing.'}
+                  </p>
+                )}
+
                 {/* Go Back Button - show when not in LOBBY */}
                 {currentStatus !== 'LOBBY' && (
                   <button
@@ -433,13 +975,96 @@ export default function AdminView() {
 
                 {currentStatus === 'PREFERENCES' && (
                   <div className="space-y-3">
+                    {feasibility && (
+                      <div className={`rounded-xl p-4 border-2 ${
+                        !feasibility.feasible
+                          ? 'bg-gradient-to-r from-red-50 to-red-100 border-red-300 text-red-800'
+                          : feasibility.atRiskPlayers.length > 0
+                            ? 'bg-gradient-to-r from-yellow-50 to-yellow-100 border-yellow-300 text-yellow-900'
+                            : 'bg-gradient-to-r from-green-50 to-green-100 border-green-300 text-green-800'
+                      }`}>
+                        <p className="font-bold text-sm mb-1">
+                          {!feasibility.feasible ? '🔴' : feasibility.atRiskPlayers.length > 0 ? '🟡' : '🟢'} Live feasibility
+                        </p>
+                        <p className="text-sm">{feasibility.summary}</p>
+                        {feasibility.atRiskPlayers.length > 0 && (
+                          <ul className="text-sm list-disc list-inside space-y-1 mt-2">
+                            {feasibility.atRiskPlayers.map(risk => (
+                              <li key={`${risk.playerId}-${risk.reason}`}>{risk.description}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    )}
                     <button
-                      onClick={handleRunMatchmaking}
-                      disabled={isRunningMatchmaking}
+                      onClick={() => handleRunMatchmaking()}
+                      disabled={isRunningMatchmaking || isCommittingAssignments}
                       className="w-full px-4 py-3 bg-gradient-to-r from-purple-600 to-purple-700 text-white rounded-xl font-bold hover:from-purple-700 hover:to-purple-800 disabled:opacity-50 disabled:cursor-not-allowed transition-all transform hover:scale-105 shadow-lg disabled:transform-none"
                     >
                       {isRunningMatchmaking ? 'Running Matchmaking...' : 'Run Matchmaking'}
                     </button>
+                    <div className="flex gap-3">
+                      <input
+                        type="text"
+                        inputMode="numeric"
+                        placeholder="Seed"
+                        value={seedInput}
+                        onChange={(e) => setSeedInput(e.target.value)}
+                        className="flex-1 px-3 py-2 border-3 border-purple-300 rounded-xl font-mono focus:border-purple-500 focus:ring-4 focus:ring-purple-200 focus:outline-none shadow-inner"
+                      />
+                      <button
+                        onClick={handleReproduceRun}
+                        disabled={isRunningMatchmaking || isCommittingAssignments}
+                        className="px-4 py-2 bg-gradient-to-r from-purple-500 to-purple-600 text-white rounded-xl font-bold hover:from-purple-600 hover:to-purple-700 disabled:opacity-50 disabled:cursor-not-allowed shadow"
+                      >
+                        🔁 Run with Seed
+                      </button>
+                    </div>
+                    {draft && draftReport && (
+                      <div className="border-4 border-purple-300 rounded-xl p-5 bg-gradient-to-r from-purple-50 to-white shadow-lg">
+                        <div className="flex items-center justify-between gap-2 mb-4">
+                          <div className="flex items-center gap-2">
+                            <span className="text-2xl">📋</span>
+                            <p className="font-bold text-lg text-gray-800">Draft Assignments</p>
+                          </div>
+                          <span className="text-xs font-mono text-gray-500">seed {draft.seed}</span>
+                        </div>
+                        <AssignmentDraftEditor
+                          assignments={draft.assignments}
+                          players={players}
+                          problems={draftProblems}
+                          groupRules={gameData?.config.groupRules}
+                          disabled={isCommittingAssignments || isRunningMatchmaking}
+                          onChange={(assignments) => setDraft({ ...draft, assignments })}
+                        />
+                        <div className="mt-4">
+                          <MatchmakingReportPanel report={draftReport} players={players} />
+                        </div>
+                        <div className="flex gap-3 mt-4">
+                          <button
+                            onClick={handleCommitAssignments}
+                            disabled={isCommittingAssignments || isRunningMatchmaking || draftProblems.length > 0}
+                            className="flex-1 px-4 py-3 bg-gradient-to-r from-green-600 to-green-700 text-white rounded-xl font-bold hover:from-green-700 hover:to-green-800 disabled:opacity-50 disabled:cursor-not-allowed transition-all transform hover:scale-105 shadow-lg disabled:transform-none"
+                          >
+                            {isCommittingAssignments ? '⏳ Committing...' : '✅ Commit Assignments'}
+                          </button>
+                          <button
+                            onClick={() => handleRunMatchmaking(generateSeed())}
+                            disabled={isCommittingAssignments || isRunningMatchmaking}
+                            className="flex-1 px-4 py-3 bg-gradient-to-r from-purple-600 to-purple-700 text-white rounded-xl font-bold hover:from-purple-700 hover:to-purple-800 disabled:opacity-50 disabled:cursor-not-allowed transition-all transform hover:scale-105 shadow-lg disabled:transform-none"
+                          >
+                            🎲 Re-roll
+                          </button>
+                          <button
+                            onClick={() => setDraft(null)}
+                            disabled={isCommittingAssignments}
+                            className="flex-1 px-4 py-3 bg-gradient-to-r from-gray-600 to-gray-700 text-white rounded-xl font-bold hover:from-gray-700 hover:to-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-all transform hover:scale-105 shadow-lg disabled:transform-none"
+                          >
+                            Discard
+                          </button>
+                        </div>
+                      </div>
+                    )}
                     {matchmakingError && (
                       <div className="bg-gradient-to-r from-red-100 to-red-200 border-4 border-red-400 rounded-xl p-5 text-red-800 shadow-lg">
                         <div className="flex items-center gap-2 mb-2">
@@ -452,6 +1077,81 @@ export default function AdminView() {
                   </div>
                 )}
 
+                {currentStatus === 'WRITING' && assignmentRepair && (
+                  <AssignmentChangesPanel
+                    title={assignmentRepair.title}
+                    changes={assignmentRepair.changes}
+                    players={players}
+                    onDismiss={() => setAssignmentRepair(null)}
+                  />
+                )}
+
+                {(currentStatus === 'WRITING' || currentStatus === 'REVEAL') && submissionHistory.length > 0 && (
+                  <SubmissionHistoryPanel history={submissionHistory} players={players} prompts={getPrompts(gameData?.config)} />
+                )}
+
+                {currentStatus === 'WRITING' && latePlayers.length > 0 && (
+                  <div className="bg-gradient-to-r from-yellow-50 to-yellow-100 border-2 border-yellow-300 rounded-xl p-4 space-y-3">
+                    <p className="text-sm text-gray-700">
+                      <span className="font-bold">🕒 Joined late:</span> {latePlayers.map(p => p.data.name).join(', ')}.
+                      Adding them moves as few unsubmitted assignments as possible; submitted reflections are kept.
+                    </p>
+                    <button
+                      onClick={handleAssignLatePlayers}
+                      disabled={isAssigningLatePlayers}
+                      className="w-full px-4 py-3 bg-gradient-to-r from-yellow-600 to-yellow-700 text-white rounded-xl font-bold hover:from-yellow-700 hover:to-yellow-800 transition-all transform hover:scale-105 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
+                    >
+                      {isAssigningLatePlayers ? '⏳ Assigning...' : `➕ Assign ${latePlayers.length} Late Joiner(s)`}
+                    </button>
+                  </div>
+                )}
+
+                {currentStatus === 'WRITING' && (
+                  <div className="bg-white rounded-xl p-4 border-2 border-blue-300 space-y-3">
+                    <p className="font-bold text-gray-800">⏰ Writing Deadline</p>
+                    {writingDeadline && deadlineRemainingMs !== null && (
+                      <DeadlineCountdown remainingMs={deadlineRemainingMs} onExpire={writingDeadline.onExpire} />
+                    )}
+                    <div className="flex flex-wrap items-center gap-2">
+                      <input
+                        type="number"
+                        min="1"
+                        max="1440"
+                        value={deadlineMinutes}
+                        onChange={(e) => setDeadlineMinutes(Math.max(1, parseInt(e.target.value) || 1))}
+                        className="w-20 px-3 py-2 border-3 border-red-300 rounded-xl focus:border-red-500 focus:ring-4 focus:ring-red-200 focus:outline-none shadow-inner"
+                      />
+                      <span className="text-sm text-gray-600">minutes from now, then</span>
+                      <select
+                        value={deadlineAction}
+                        onChange={(e) => setDeadlineAction(e.target.value as DeadlineAction)}
+                        className="px-3 py-2 border-3 border-red-300 rounded-xl focus:border-red-500 focus:ring-4 focus:ring-red-200 focus:outline-none shadow-inner"
+                      >
+                        <option value="lock">close writing</option>
+                        <option value="reveal">start the reveal</option>
+                      </select>
+                    </div>
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => handleSetDeadline(deadlineMinutes)}
+                        disabled={isSettingDeadline}
+                        className="flex-1 px-4 py-2 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-xl font-bold hover:from-blue-700 hover:to-blue-800 transition-all shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {writingDeadline ? '🔁 Restart Countdown' : '▶️ Start Countdown'}
+                      </button>
+                      {writingDeadline && (
+                        <button
+                          onClick={() => handleSetDeadline(null)}
+                          disabled={isSettingDeadline}
+                          className="px-4 py-2 bg-gray-200 text-gray-700 rounded-xl font-bold hover:bg-gray-300 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                          Clear
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                )}
+
                 {currentStatus === 'WRITING' && (
                   <button
                     onClick={handleStartReveal}
@@ -463,6 +1163,30 @@ export default function AdminView() {
               </div>
             </div>
 
+            {/* Writing Progress */}
+            {currentStatus === 'WRITING' && writingProgress && (
+              <div className="border-4 border-yellow-300 rounded-2xl p-6 bg-gradient-to-r from-white to-yellow-50 shadow-lg">
+                <h2 className="text-2xl font-bold text-gray-800 mb-4 flex items-center gap-2">
+                  <span className="text-3xl">📊</span> Writing Progress
+                </h2>
+                <WritingProgressPanel progress={writingProgress} />
+              </div>
+            )}
+
+            {/* Moderation */}
+            {(currentStatus === 'WRITING' || currentStatus === 'REVEAL') && (
+              <div className="border-4 border-orange-300 rounded-2xl p-6 bg-gradient-to-r from-white to-orange-50 shadow-lg">
+                <h2 className="text-2xl font-bold text-gray-800 mb-4 flex items-center gap-2">
+                  <span className="text-3xl">🛡️</span> Moderation
+                </h2>
+                <ModerationQueuePanel
+                  players={players}
+                  prompts={getPrompts(gameData?.config)}
+                  onModerate={moderateSubmission}
+                />
+              </div>
+            )}
+
             {/* Players List */}
             <div className="border-4 border-green-300 rounded-2xl p-6 bg-gradient-to-r from-white to-green-50 shadow-lg">
               <h2 className="text-2xl font-bold text-gray-800 mb-4 flex items-center gap-2">
@@ -473,58 +1197,105 @@ export default function AdminView() {
                 <p className="text-gray-500 text-lg">⏳ No players yet</p>
               ) : (
                 <div className="space-y-3">
-                  {players.map((player) => (
-                    <div
-                      key={player.uid}
-                      className="flex items-center justify-between p-5 bg-gradient-to-r from-gray-50 to-gray-100 rounded-xl border-3 border-gray-300 shadow-md"
-                    >
-                      <div className="flex-1">
-                        <p className="font-bold text-lg text-gray-800 flex items-center gap-2">
-                          <span className="text-2xl">🎅</span>
-                          {player.data.name}
-                        </p>
-                        <div className="text-sm text-gray-700 mt-2 font-semibold">
-                          <span className="bg-green-100 px-3 py-1 rounded-lg border-2 border-green-300">⭐ {player.data.preferences.length} Merry Picks</span>
-                          <span className="ml-3 bg-blue-100 px-3 py-1 rounded-lg border-2 border-blue-300">⏭️ {player.data.avoids.length} Skip this round</span>
-                          {player.data.assignments.length > 0 && (
-                            <span className="ml-3 bg-blue-100 px-3 py-1 rounded-lg border-2 border-blue-300">📝 {player.data.assignments.length} assignments</span>
-                          )}
+                  {players.map((player) => {
+                    const risks = feasibility?.atRiskPlayers.filter(risk => risk.playerId === player.uid) || [];
+                    const isInViolation = feasibility?.violation?.playerIds.includes(player.uid) ?? false;
+                    return (
+                      <div
+                        key={player.uid}
+                        className={`flex items-center justify-between p-5 bg-gradient-to-r from-gray-50 to-gray-100 rounded-xl border-3 shadow-md ${
+                          isInViolation ? 'border-red-400' : risks.length > 0 ? 'border-yellow-400' : 'border-gray-300'
+                        }`}
+                      >
+                        <div className="flex-1">
+                          <p className="font-bold text-lg text-gray-800 flex items-center gap-2">
+                            <span className="text-2xl">🎅</span>
+                            {player.data.name}
+                          </p>
+                          {risks.map(risk => (
+                            <p key={risk.reason} className={`text-sm mt-1 font-semibold ${isInViolation ? 'text-red-700' : 'text-yellow-700'}`}>
+                              ⚠️ {risk.description}
+                            </p>
+                          ))}
+                          <div className="text-sm text-gray-700 mt-2 font-semibold">
+                            <span className="bg-green-100 px-3 py-1 rounded-lg border-2 border-green-300">⭐ {player.data.preferences.length} Merry Picks</span>
+                            <span className="ml-3 bg-blue-100 px-3 py-1 rounded-lg border-2 border-blue-300">⏭️ {player.data.avoids.length} Skip this round</span>
+                            {player.data.assignments.length > 0 && (
+                              <span className="ml-3 bg-blue-100 px-3 py-1 rounded-lg border-2 border-blue-300">📝 {player.data.assignments.length} assignments</span>
+                            )}
+                          </div>
+                          <label className="flex items-center gap-2 text-sm text-gray-700 mt-3 font-semibold">
+                            ✍️ Writes
+                            <select
+                              value={player.data.writeQuota ?? ''}
+                              onChange={(e) => handleUpdateWriteQuota(player.uid, e.target.value)}
+                              disabled={currentStatus !== 'LOBBY' && currentStatus !== 'PREFERENCES'}
+                              className="px-2 py-1 border-2 border-gray-300 rounded-lg bg-white disabled:opacity-50"
+                            >
+                              <option value="">Default ({targetsPerPlayer})</option>
+                              {Array.from({ length: players.length }, (_, quota) => (
+                                <option key={quota} value={quota}>{quota}</option>
+                              ))}
+                            </select>
+                            reflection(s)
+                          </label>
+                          <label className="flex items-center gap-2 text-sm text-gray-700 mt-2 font-semibold">
+                            🏷️ Groups
+                            <input
+                              key={player.data.groups.join(',')}
+                              defaultValue={player.data.groups.join(', ')}
+                              onBlur={(e) => {
+                                if (e.target.value !== player.data.groups.join(', ')) {
+                                  handleUpdateGroups(player.uid, e.target.value);
+                                }
+                              }}
+                              disabled={currentStatus !== 'LOBBY' && currentStatus !== 'PREFERENCES'}
+                              placeholder="e.g. managers, family-smith"
+                              className="flex-1 px-2 py-1 border-2 border-gray-300 rounded-lg bg-white font-normal disabled:opacity-50"
+                            />
+                          </label>
                         </div>
-                      </div>
                       
-                      <div className="flex gap-2">
-                        {currentStatus === 'REVEAL' && (
+                        <div className="flex gap-2">
+                          {currentStatus === 'REVEAL' && (
+                            <button
+                              onClick={() => handleRevealPlayer(player.uid)}
+                              className="px-4 py-2 bg-gradient-to-r from-red-600 to-red-700 text-white rounded-xl hover:from-red-700 hover:to-red-800 transition-all transform hover:scale-105 font-bold shadow-lg"
+                            >
+                              Reveal
+                            </button>
+                          )}
                           <button
-                            onClick={() => handleRevealPlayer(player.uid)}
-                            className="px-4 py-2 bg-gradient-to-r from-red-600 to-red-700 text-white rounded-xl hover:from-red-700 hover:to-red-800 transition-all transform hover:scale-105 font-bold shadow-lg"
+                            onClick={async () => {
+                              const rebalanceNote = currentStatus === 'WRITING'
+                                ? ' Their writers and targets will be re-balanced, keeping every submitted reflection.'
+                                : '';
+                              if (!confirm(`Are you sure you want to kick ${player.data.name}? This will remove them from the game and clean up all references.${rebalanceNote}`)) {
+                                return;
+                              }
+                              setKickingPlayerId(player.uid);
+                              try {
+                                const changes = await kickPlayer(player.uid);
+                                if (changes) {
+                                  setAssignmentRepair({ title: `Re-balanced after kicking ${player.data.name}`, changes });
+                                }
+                                alert(`${player.data.name} has been kicked from the game.`);
+                              } catch (err: any) {
+                                console.error('Error kicking player:', err);
+                                alert(err.message || 'Failed to kick player');
+                              } finally {
+                                setKickingPlayerId(null);
+                              }
+                            }}
+                            disabled={kickingPlayerId === player.uid}
+                            className="px-4 py-2 bg-gradient-to-r from-red-600 to-red-700 text-white rounded-xl hover:from-red-700 hover:to-red-800 transition-all transform hover:scale-105 font-bold shadow-lg disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
                           >
-                            Reveal
+                            {kickingPlayerId === player.uid ? '⏳ Kicking...' : '🚪 Kick'}
                           </button>
-                        )}
-                        <button
-                          onClick={async () => {
-                            if (!confirm(`Are you sure you want to kick ${player.data.name}? This will remove them from the game and clean up all references.`)) {
-                              return;
-                            }
-                            setKickingPlayerId(player.uid);
-                            try {
-                              await kickPlayer(player.uid);
-                              alert(`${player.data.name} has been kicked from the game.`);
-                            } catch (err: any) {
-                              console.error('Error kicking player:', err);
-                              alert(err.message || 'Failed to kick player');
-                            } finally {
-                              setKickingPlayerId(null);
-                            }
-                          }}
-                          disabled={kickingPlayerId === player.uid}
-                          className="px-4 py-2 bg-gradient-to-r from-red-600 to-red-700 text-white rounded-xl hover:from-red-700 hover:to-red-800 transition-all transform hover:scale-105 font-bold shadow-lg disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
-                        >
-                          {kickingPlayerId === player.uid ? '⏳ Kicking...' : '🚪 Kick'}
-                        </button>
+                        </div>
                       </div>
-                    </div>
-                  ))}
+                    );
+                  })}
                 </div>
               )}
 
@@ -574,17 +1345,16 @@ export default function AdminView() {
                                 <p className="font-bold text-lg text-gray-800 mb-3 flex items-center gap-2">
                                   <span className="text-2xl">🎅</span>
                                   From {isRevealed ? writer.data.name : 'Anonymous'}
-                                </p>
-                                <div className="space-y-2">
-                                  {submission.impression && submission.impression.trim() && (
-                                    <p className="text-sm text-gray-700">
-                                      <strong className="text-gray-800">💭 Impression:</strong> {submission.impression}
-                                    </p>
+                                  {submission.hidden && (
+                                    <span className="text-xs font-normal text-gray-500">🙈 Hidden from players</span>
                                   )}
-                                  <p className="text-sm text-gray-700">
-                                    <strong className="text-gray-800">🌟 {submission.impression && submission.impression.trim() ? 'Reality' : 'Message'}:</strong> {submission.reality}
-                                  </p>
-                                </div>
+                                  {!!submission.editCount && (
+                                    <span className="text-xs font-normal text-gray-500">
+                                      ✏️ Edited {submission.editCount} time(s)
+                                    </span>
+                                  )}
+                                </p>
+                                <SubmissionAnswers prompts={getPrompts(gameData.config)} answers={submission.answers} compact />
                               </div>
                             );
                           })}
@@ -596,6 +1366,53 @@ export default function AdminView() {
               </div>
             )}
 
+            {/* Co-hosts */}
+            {isOwner && (
+              <div className="border-4 border-blue-300 rounded-2xl p-6 bg-gradient-to-r from-white to-blue-50 shadow-lg">
+                <h2 className="text-2xl font-bold text-gray-800 mb-4 flex items-center gap-2">
+                  <span className="text-3xl">🤝</span> Co-hosts ({coHostIds.length})
+                </h2>
+                {coHostIds.length > 0 && (
+                  <div className="space-y-2 mb-4">
+                    {coHostIds.map(coHostId => {
+                      const coHostPlayer = players.find(p => p.uid === coHostId);
+                      return (
+                        <div key={coHostId} className="flex items-center justify-between p-3 bg-white rounded-xl border-2 border-blue-200 shadow-sm">
+                          <span className="font-semibold text-gray-800">
+                            {coHostPlayer?.data.name || <span className="font-mono text-sm">{coHostId}</span>}
+                          </span>
+                          <button
+                            onClick={() => handleRemoveCoHost(coHostId)}
+                            className="px-3 py-1 bg-gradient-to-r from-red-600 to-red-700 text-white rounded-lg text-sm font-bold hover:from-red-700 hover:to-red-800 shadow"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+                <button
+                  onClick={handleCreateCoHostInvite}
+                  className="w-full px-4 py-3 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-xl hover:from-blue-700 hover:to-blue-800 transition-all transform hover:scale-105 font-bold shadow-lg"
+                >
+                  🔗 Create Co-host Invite Link
+                </button>
+                {coHostInviteLink && (
+                  <div className="mt-4 bg-white rounded-xl p-4 border-2 border-blue-200">
+                    <p className="text-sm font-semibold text-gray-700 mb-2">Share this link privately - anyone who opens it can manage the game:</p>
+                    <input
+                      type="text"
+                      readOnly
+                      value={coHostInviteLink}
+                      onFocus={(e) => e.target.select()}
+                      className="w-full px-3 py-2 border-2 border-blue-200 rounded-lg font-mono text-xs bg-gray-50"
+                    />
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Debug Info */}
             <div className="border-2 border-gray-200 rounded-lg p-6 bg-gray-50">
               <h2 className="text-xl font-bold text-gray-800 mb-4">Debug Info</h2>
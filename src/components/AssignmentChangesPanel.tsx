@@ -0,0 +1,53 @@
+import { AssignmentChanges } from '../matchmaking';
+import { Assignment, Player } from '../types';
+
+interface AssignmentChangesPanelProps {
+  title: string;
+  changes: AssignmentChanges;
+  players: Player[];
+  onDismiss: () => void;
+}
+
+export default function AssignmentChangesPanel({ title, changes, players, onDismiss }: AssignmentChangesPanelProps) {
+  const nameOf = (uid: string) => players.find(p => p.uid === uid)?.data.name || 'Unknown';
+  const renderList = (assignments: Assignment[]) => (
+    <ul className="text-sm text-gray-700 list-disc list-inside space-y-1">
+      {assignments.map(({ writerId, targetId }) => (
+        <li key={`${writerId}-${targetId}`}>{nameOf(writerId)} → {nameOf(targetId)}</li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <div className="bg-white rounded-xl p-4 border-2 border-blue-300 space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="font-bold text-gray-800">🔧 {title}</p>
+        <button onClick={onDismiss} className="text-sm text-gray-500 hover:text-gray-800 font-semibold">
+          Dismiss
+        </button>
+      </div>
+      {changes.added.length === 0 && changes.removed.length === 0 ? (
+        <p className="text-sm text-gray-600">No assignments needed to change.</p>
+      ) : (
+        <>
+          <p className="text-sm text-gray-600">
+            {changes.added.length} new assignment(s), {changes.removed.length} unsubmitted one(s) taken away.
+            Submitted reflections were kept.
+          </p>
+          {changes.added.length > 0 && (
+            <div>
+              <p className="text-sm font-bold text-green-700 mb-1">➕ Now writing</p>
+              {renderList(changes.added)}
+            </div>
+          )}
+          {changes.removed.length > 0 && (
+            <div>
+              <p className="text-sm font-bold text-red-700 mb-1">➖ No longer writing</p>
+              {renderList(changes.removed)}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+import { useState } from 'react';
+import { Assignment, GroupRule, Player } from '../types';
+import { findBlockingGroupRule, getPreferenceWeight } from '../matchmaking';
+
+interface AssignmentDraftEditorProps {
+  assignments: Assignment[];
+  players: Player[];
+  problems: string[];
+  groupRules?: GroupRule[];
+  disabled?: boolean;
+  onChange: (assignments: Assignment[]) => void;
+}
+
+/**
+ * Swap the targets of two assignments. Every writer and target keeps the same
+ * number of assignments, so only self/avoid/group rule/duplicate problems can appear.
+ */
+const swapTargets = (assignments: Assignment[], firstIndex: number, secondIndex: number): Assignment[] => {
+  const next = [...assignments];
+  next[firstIndex] = { ...assignments[firstIndex], targetId: assignments[secondIndex].targetId };
+  next[secondIndex] = { ...assignments[secondIndex], targetId: assignments[firstIndex].targetId };
+  return next;
+};
+
+export default function AssignmentDraftEditor({
+  assignments,
+  players,
+  problems,
+  groupRules = [],
+  disabled = false,
+  onChange,
+}: AssignmentDraftEditorProps) {
+  // Index into assignments of the first cell picked for a swap
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+
+  const playerMap = new Map(players.map(p => [p.uid, p]));
+  const nameOf = (uid: string) => playerMap.get(uid)?.data.name || 'Unknown';
+  const sortedPlayers = [...players].sort((a, b) => a.data.name.localeCompare(b.data.name));
+
+  const isInvalid = (assignment: Assignment) => {
+    const writer = playerMap.get(assignment.writerId);
+    const target = playerMap.get(assignment.targetId);
+    return !writer ||
+      !target ||
+      assignment.writerId === assignment.targetId ||
+      writer.data.avoids.includes(assignment.targetId) ||
+      findBlockingGroupRule(writer, target, groupRules) !== null ||
+      assignments.filter(a => a.writerId === assignment.writerId && a.targetId === assignment.targetId).length > 1;
+  };
+
+  const handleCellClick = (index: number) => {
+    if (selectedIndex === null) {
+      setSelectedIndex(index);
+      return;
+    }
+    if (selectedIndex !== index) {
+      onChange(swapTargets(assignments, selectedIndex, index));
+    }
+    setSelectedIndex(null);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-gray-600">
+        Click one target, then another, to swap them between writers.
+      </p>
+      <div className="bg-white rounded-xl p-4 border-2 border-gray-200 max-h-96 overflow-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="py-1 pr-3">Writer</th>
+              <th className="py-1">Writes about</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sortedPlayers.map(writer => (
+              <tr key={writer.uid} className="border-t border-gray-100">
+                <td className="py-2 pr-3 font-medium text-gray-800 whitespace-nowrap">{writer.data.name}</td>
+                <td className="py-2">
+                  <div className="flex flex-wrap gap-2">
+                    {assignments.map((assignment, index) => {
+                      if (assignment.writerId !== writer.uid) return null;
+                      const isSelected = selectedIndex === index;
+                      const preferenceWeight = getPreferenceWeight(writer, assignment.targetId);
+                      const isPreferred = preferenceWeight > 0;
+                      const invalid = isInvalid(assignment);
+                      return (
+                        <button
+                          key={index}
+                          onClick={() => handleCellClick(index)}
+                          disabled={disabled}
+                          className={`px-3 py-1 rounded-lg border-2 font-medium transition-all disabled:opacity-50 disabled:cursor-not-allowed ${
+                            isSelected
+                              ? 'bg-purple-600 border-purple-700 text-white'
+                              : invalid
+                                ? 'bg-red-100 border-red-400 text-red-800'
+                                : isPreferred
+                                  ? 'bg-green-100 border-green-400 text-green-800'
+                                  : 'bg-gray-50 border-gray-300 text-gray-700 hover:border-purple-400'
+                          }`}
+                        >
+                          {isPreferred && !invalid && `${'⭐'.repeat(preferenceWeight)} `}
+                          {nameOf(assignment.targetId)}
+                        </button>
+                      );
+                    })}
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {problems.length > 0 && (
+        <div className="bg-gradient-to-r from-red-50 to-red-100 border-2 border-red-300 rounded-xl p-4 text-red-800">
+          <p className="font-bold text-sm mb-2">⚠️ These edits break the rules and cannot be committed:</p>
+          <ul className="list-disc list-inside space-y-1 text-sm">
+            {problems.map((problem, index) => (
+              <li key={index}>{problem}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
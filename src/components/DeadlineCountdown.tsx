@@ -0,0 +1,47 @@
+import { DeadlineAction } from '../types';
+
+interface DeadlineCountdownProps {
+  remainingMs: number;
+  onExpire: DeadlineAction;
+}
+
+// Under this, the countdown turns red
+const URGENT_MS = 5 * 60 * 1000;
+
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+export default function DeadlineCountdown({ remainingMs, onExpire }: DeadlineCountdownProps) {
+  if (remainingMs <= 0) {
+    return (
+      <div className="bg-gradient-to-r from-gray-50 to-gray-100 border-2 border-gray-300 rounded-xl p-4 text-center">
+        <p className="font-bold text-gray-800">⏰ Time's up!</p>
+        <p className="text-sm text-gray-600">
+          {onExpire === 'reveal' ? 'Moving on to the reveal...' : 'Writing is closed.'}
+        </p>
+      </div>
+    );
+  }
+
+  const isUrgent = remainingMs <= URGENT_MS;
+  return (
+    <div className={`border-2 rounded-xl p-4 text-center ${
+      isUrgent
+        ? 'bg-gradient-to-r from-red-50 to-red-100 border-red-400'
+        : 'bg-gradient-to-r from-blue-50 to-blue-100 border-blue-300'
+    }`}>
+      <p className="text-xs font-semibold text-gray-700 mb-1">⏰ Time left to write</p>
+      <p className={`text-3xl font-bold tabular-nums ${isUrgent ? 'text-red-700' : 'text-blue-700'}`}>
+        {formatRemaining(remainingMs)}
+      </p>
+      <p className="text-xs text-gray-600">
+        {onExpire === 'reveal' ? 'The reveal starts automatically when time is up' : 'Writing closes when time is up'}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { GroupRule } from '../types';
+import { describeGroupRule } from '../matchmaking';
+
+interface GroupRulesEditorProps {
+  rules: GroupRule[];
+  groupNames: string[]; // Groups currently given to players, offered as suggestions
+  onChange: (rules: GroupRule[]) => void;
+}
+
+const inputClassName = 'w-36 px-3 py-2 border-3 border-red-300 rounded-xl focus:border-red-500 focus:ring-4 focus:ring-red-200 focus:outline-none shadow-inner';
+
+export default function GroupRulesEditor({ rules, groupNames, onChange }: GroupRulesEditorProps) {
+  const [ruleType, setRuleType] = useState<GroupRule['type']>('within');
+  const [firstGroup, setFirstGroup] = useState('');
+  const [secondGroup, setSecondGroup] = useState('');
+
+  const handleAddRule = () => {
+    const fromGroup = firstGroup.trim();
+    const toGroup = secondGroup.trim();
+    if (!fromGroup || (ruleType === 'across' && !toGroup)) {
+      alert('Enter the group name(s) for the rule');
+      return;
+    }
+    const rule: GroupRule = ruleType === 'within'
+      ? { type: 'within', group: fromGroup }
+      : { type: 'across', fromGroup, toGroup };
+    if (rules.some(existing => describeGroupRule(existing) === describeGroupRule(rule))) {
+      alert('That rule already exists');
+      return;
+    }
+    onChange([...rules, rule]);
+    setFirstGroup('');
+    setSecondGroup('');
+  };
+
+  return (
+    <div className="space-y-2">
+      {rules.length === 0 ? (
+        <p className="text-sm text-gray-500">No group rules. Give players groups in the player list, then add rules here.</p>
+      ) : (
+        <ul className="space-y-1">
+          {rules.map((rule, index) => (
+            <li key={index} className="flex items-center justify-between bg-white px-3 py-2 rounded-lg border-2 border-gray-200 text-sm text-gray-700">
+              <span>🚫 {describeGroupRule(rule)}</span>
+              <button
+                onClick={() => onChange(rules.filter((_, i) => i !== index))}
+                className="text-red-600 hover:text-red-800 font-semibold"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          value={ruleType}
+          onChange={(e) => setRuleType(e.target.value as GroupRule['type'])}
+          className="px-3 py-2 border-3 border-red-300 rounded-xl focus:border-red-500 focus:ring-4 focus:ring-red-200 focus:outline-none shadow-inner"
+        >
+          <option value="within">Within a group</option>
+          <option value="across">From one group to another</option>
+        </select>
+        <span className="text-sm text-gray-600">nobody in</span>
+        <input
+          list="group-names"
+          value={firstGroup}
+          onChange={(e) => setFirstGroup(e.target.value)}
+          placeholder="e.g. managers"
+          className={inputClassName}
+        />
+        {ruleType === 'within' ? (
+          <span className="text-sm text-gray-600">writes about each other</span>
+        ) : (
+          <>
+            <span className="text-sm text-gray-600">writes about group</span>
+            <input
+              list="group-names"
+              value={secondGroup}
+              onChange={(e) => setSecondGroup(e.target.value)}
+              placeholder="e.g. reports"
+              className={inputClassName}
+            />
+          </>
+        )}
+        <button
+          onClick={handleAddRule}
+          className="px-4 py-2 bg-gradient-to-r from-purple-600 to-purple-700 text-white rounded-xl font-bold hover:from-purple-700 hover:to-purple-800 transition-all shadow-lg"
+        >
+          Add Rule
+        </button>
+        <datalist id="group-names">
+          {groupNames.map(name => (
+            <option key={name} value={name} />
+          ))}
+        </datalist>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { generateRoomCode, isValidRoomCode, normalizeRoomCode, ROOM_CODE_LENGTH } from '../utils/roomCode';
+
+export default function HomeView() {
+  const navigate = useNavigate();
+  const [roomCode, setRoomCode] = useState('');
+
+  const normalizedCode = normalizeRoomCode(roomCode);
+  const canJoin = isValidRoomCode(normalizedCode);
+
+  const handleJoinRoom = () => {
+    if (!canJoin) return;
+    navigate(`/r/${normalizedCode}`);
+  };
+
+  const handleHostRoom = () => {
+    navigate(`/r/${generateRoomCode()}/admin`);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-red-50 via-white to-green-50 flex items-center justify-center p-4 relative overflow-hidden">
+      {/* Decorative Christmas elements */}
+      <div className="absolute top-10 left-10 text-4xl animate-float">❄️</div>
+      <div className="absolute top-20 right-20 text-3xl animate-float" style={{ animationDelay: '1s' }}>🎄</div>
+      <div className="absolute bottom-20 left-20 text-3xl animate-float" style={{ animationDelay: '2s' }}>⭐</div>
+      <div className="absolute bottom-10 right-10 text-4xl animate-float" style={{ animationDelay: '0.5s' }}>🎁</div>
+
+      <div className="max-w-md w-full bg-white rounded-3xl shadow-2xl p-8 border-4 border-red-300 relative z-10" style={{
+        background: 'linear-gradient(135deg, #ffffff 0%, #fef2f2 100%)',
+        boxShadow: '0 20px 60px rgba(220, 38, 38, 0.3)',
+      }}>
+        <div className="text-center mb-8">
+          <div className="text-6xl mb-4 animate-sparkle">🎄</div>
+          <h1 className="text-5xl font-bold mb-3 bg-gradient-to-r from-red-600 via-red-500 to-green-600 bg-clip-text text-transparent">
+            Reflections
+          </h1>
+          <p className="text-lg text-gray-700 font-medium">✨ Enter the code your host shared ✨</p>
+        </div>
+
+        <input
+          type="text"
+          value={roomCode}
+          onChange={(e) => setRoomCode(e.target.value)}
+          onKeyPress={(e) => e.key === 'Enter' && handleJoinRoom()}
+          placeholder="🔑 Room code"
+          maxLength={ROOM_CODE_LENGTH + 2}
+          className="w-full px-4 py-3 border-3 border-red-300 rounded-xl focus:border-red-500 focus:ring-4 focus:ring-red-200 focus:outline-none text-lg text-center font-mono tracking-widest uppercase shadow-inner"
+        />
+        <button
+          onClick={handleJoinRoom}
+          disabled={!canJoin}
+          className="w-full mt-4 bg-gradient-to-r from-red-600 to-red-700 text-white py-4 rounded-xl font-bold text-lg hover:from-red-700 hover:to-red-800 disabled:opacity-50 disabled:cursor-not-allowed transition-all transform hover:scale-105 shadow-lg"
+        >
+          🎄 Join Room
+        </button>
+
+        <div className="flex items-center gap-3 my-6">
+          <div className="flex-1 h-px bg-red-200" />
+          <span className="text-sm text-gray-500 font-semibold">or</span>
+          <div className="flex-1 h-px bg-red-200" />
+        </div>
+
+        <button
+          onClick={handleHostRoom}
+          className="w-full bg-gradient-to-r from-green-600 to-green-700 text-white py-4 rounded-xl font-bold text-lg hover:from-green-700 hover:to-green-800 transition-all transform hover:scale-105 shadow-lg"
+        >
+          🎅 Host a New Gathering
+        </button>
+      </div>
+    </div>
+  );
+}
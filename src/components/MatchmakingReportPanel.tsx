@@ -0,0 +1,104 @@
+import { MatchmakingReport } from '../matchmaking';
+import { Player } from '../types';
+
+interface MatchmakingReportPanelProps {
+  report: MatchmakingReport;
+  players: Player[];
+}
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+export default function MatchmakingReportPanel({ report, players }: MatchmakingReportPanelProps) {
+  const nameOf = (uid: string) => players.find(p => p.uid === uid)?.data.name || 'Unknown';
+
+  // Least satisfied players first, players without preferences last
+  const sortedSatisfaction = [...report.playerSatisfaction].sort(
+    (a, b) => (a.satisfaction ?? Infinity) - (b.satisfaction ?? Infinity)
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className="bg-gradient-to-r from-green-50 to-green-100 p-4 rounded-xl border-2 border-green-300">
+          <p className="text-xs font-semibold text-gray-700 mb-1">⭐ Merry Picks hit</p>
+          <p className="text-2xl font-bold text-green-700">
+            {report.preferenceHits}/{report.totalAssignments}
+          </p>
+          <p className="text-xs text-gray-600">
+            {formatPercent(report.preferenceHitRate)} of assignments, strength {report.preferenceWeight}
+          </p>
+        </div>
+        <div className="bg-gradient-to-r from-gray-50 to-gray-100 p-4 rounded-xl border-2 border-gray-300">
+          <p className="text-xs font-semibold text-gray-700 mb-1">➖ Neutral fallbacks</p>
+          <p className="text-2xl font-bold text-gray-700">{report.neutralFallbacks}</p>
+        </div>
+        <div className={`p-4 rounded-xl border-2 ${
+          report.reciprocalPairs.length + report.threeCycles.length > 0
+            ? 'bg-gradient-to-r from-yellow-50 to-yellow-100 border-yellow-300'
+            : 'bg-gradient-to-r from-blue-50 to-blue-100 border-blue-300'
+        }`}>
+          <p className="text-xs font-semibold text-gray-700 mb-1">🔁 Reciprocal pairs</p>
+          <p className="text-2xl font-bold text-gray-800">{report.reciprocalPairs.length}</p>
+          <p className="text-xs text-gray-600">{report.threeCycles.length} 3-cycle(s)</p>
+        </div>
+        <div className="bg-gradient-to-r from-blue-50 to-blue-100 p-4 rounded-xl border-2 border-blue-300">
+          <p className="text-xs font-semibold text-gray-700 mb-1">⏱️ Solver time</p>
+          <p className="text-2xl font-bold text-blue-700">{report.solverTimeMs.toFixed(0)} ms</p>
+        </div>
+      </div>
+
+      {report.reciprocalPairs.length > 0 && (
+        <div className="bg-white rounded-xl p-4 border-2 border-yellow-300">
+          <p className="text-sm font-bold text-gray-700 mb-2">🔁 Writing about each other:</p>
+          <ul className="text-sm text-gray-700 list-disc list-inside space-y-1">
+            {report.reciprocalPairs.map(([a, b]) => (
+              <li key={`${a}-${b}`}>{nameOf(a)} ↔ {nameOf(b)}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {report.threeCycles.length > 0 && (
+        <div className="bg-white rounded-xl p-4 border-2 border-yellow-300">
+          <p className="text-sm font-bold text-gray-700 mb-2">🔺 Writing in a circle of three:</p>
+          <ul className="text-sm text-gray-700 list-disc list-inside space-y-1">
+            {report.threeCycles.map(([a, b, c]) => (
+              <li key={`${a}-${b}-${c}`}>{nameOf(a)} → {nameOf(b)} → {nameOf(c)} → {nameOf(a)}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl p-4 border-2 border-gray-200 max-h-72 overflow-auto">
+        <p className="text-sm font-bold text-gray-700 mb-2">😊 Per-player satisfaction</p>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="py-1">Player</th>
+              <th className="py-1">Merry Picks hit</th>
+              <th className="py-1">Satisfaction</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sortedSatisfaction.map(entry => (
+              <tr key={entry.playerId} className="border-t border-gray-100">
+                <td className="py-1 font-medium text-gray-800">{entry.playerName}</td>
+                <td className="py-1 text-gray-700">
+                  {entry.preferenceHits}/{entry.assignmentCount}
+                  {entry.preferenceHits > 0 && <span className="text-gray-400"> (strength {entry.preferenceWeight})</span>}
+                </td>
+                <td className="py-1 text-gray-700">
+                  {entry.satisfaction === null ? (
+                    <span className="text-gray-400">No picks</span>
+                  ) : (
+                    formatPercent(entry.satisfaction)
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
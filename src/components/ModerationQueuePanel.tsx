@@ -0,0 +1,149 @@
+import { useState } from 'react';
+import { Player, ReflectionPrompt, Submission } from '../types';
+import SubmissionAnswers from './SubmissionAnswers';
+
+interface ModerationQueuePanelProps {
+  players: Player[];
+  prompts: ReflectionPrompt[];
+  onModerate: (writerId: string, targetId: string, changes: Pick<Submission, 'hidden' | 'flagged'>) => Promise<void>;
+}
+
+interface QueueEntry {
+  writerId: string; // Only used to address the submission, never shown unless the writer revealed themselves
+  writerName: string | null;
+  submission: Submission;
+}
+
+const needsReview = (submission: Submission) => !!submission.flagged && !submission.hidden;
+
+/**
+ * A target's reflections, flagged ones first and then by text, so the order doesn't give
+ * away who wrote what
+ */
+const getQueue = (players: Player[], targetId: string): QueueEntry[] =>
+  players
+    .filter(writer => writer.data.submissions[targetId])
+    .map(writer => {
+      const submission = writer.data.submissions[targetId];
+      return {
+        writerId: writer.uid,
+        writerName: submission.writerRevealed ? writer.data.name : null,
+        submission,
+      };
+    })
+    .sort((a, b) =>
+      Number(needsReview(b.submission)) - Number(needsReview(a.submission)) ||
+      JSON.stringify(a.submission.answers).localeCompare(JSON.stringify(b.submission.answers))
+    );
+
+export default function ModerationQueuePanel({ players, prompts, onModerate }: ModerationQueuePanelProps) {
+  const targets = players
+    .map(target => ({ target, queue: getQueue(players, target.uid) }))
+    .filter(({ queue }) => queue.length > 0)
+    .sort((a, b) => a.target.data.name.localeCompare(b.target.data.name));
+  const reviewCount = (queue: QueueEntry[]) => queue.filter(entry => needsReview(entry.submission)).length;
+
+  const [selectedTargetId, setSelectedTargetId] = useState<string | null>(null);
+  const [updatingWriterId, setUpdatingWriterId] = useState<string | null>(null);
+  const selected = targets.find(({ target }) => target.uid === selectedTargetId) ||
+    targets.find(({ queue }) => reviewCount(queue) > 0) ||
+    targets[0];
+
+  const totalToReview = targets.reduce((sum, { queue }) => sum + reviewCount(queue), 0);
+  const totalHidden = targets.reduce((sum, { queue }) => sum + queue.filter(entry => entry.submission.hidden).length, 0);
+
+  const handleModerate = async (entry: QueueEntry, changes: Pick<Submission, 'hidden' | 'flagged'>) => {
+    if (!selected) return;
+    setUpdatingWriterId(entry.writerId);
+    try {
+      await onModerate(entry.writerId, selected.target.uid, changes);
+    } catch (err) {
+      console.error('Error moderating reflection:', err);
+      alert(err instanceof Error ? err.message : 'Failed to update the reflection');
+    } finally {
+      setUpdatingWriterId(null);
+    }
+  };
+
+  if (!selected) {
+    return <p className="text-gray-600">No reflections to review yet.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-700">
+        <span className="font-bold">{totalToReview}</span> flagged reflection(s) to review,{' '}
+        <span className="font-bold">{totalHidden}</span> hidden from the reveal.
+        Writers' names are hidden here unless they revealed them, but hosts can still find out
+        who wrote what from the room's data.
+      </p>
+
+      <div className="flex flex-wrap gap-2">
+        {targets.map(({ target, queue }) => {
+          const count = reviewCount(queue);
+          return (
+            <button
+              key={target.uid}
+              onClick={() => setSelectedTargetId(target.uid)}
+              className={`px-3 py-1 rounded-lg border-2 text-sm font-medium transition-all ${
+                target.uid === selected.target.uid
+                  ? 'bg-purple-600 border-purple-700 text-white'
+                  : count > 0
+                    ? 'bg-orange-100 border-orange-400 text-orange-800'
+                    : 'bg-gray-50 border-gray-300 text-gray-700 hover:border-purple-400'
+              }`}
+            >
+              {target.data.name} ({queue.length}){count > 0 && ` 🚩 ${count}`}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="space-y-3">
+        <p className="font-bold text-gray-800">Reflections about {selected.target.data.name}</p>
+        {selected.queue.map((entry, index) => {
+          const { submission } = entry;
+          const isUpdating = updatingWriterId === entry.writerId;
+          return (
+            <div
+              key={entry.writerId}
+              className={`bg-white p-4 rounded-xl border-2 space-y-2 ${
+                submission.hidden ? 'border-gray-300 opacity-60' : submission.flagged ? 'border-orange-400' : 'border-gray-200'
+              }`}
+            >
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <p className="text-sm font-bold text-gray-800">
+                  {entry.writerName ? `From ${entry.writerName}` : `Anonymous #${index + 1}`}
+                  {submission.hidden && <span className="ml-2 text-gray-500">🙈 Hidden</span>}
+                  {submission.flagged && <span className="ml-2 text-orange-700">🚩 Flagged</span>}
+                </p>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => handleModerate(entry, { flagged: !submission.flagged })}
+                    disabled={isUpdating}
+                    className="px-3 py-1 rounded-lg text-sm font-semibold border-2 border-orange-300 text-orange-800 hover:bg-orange-50 disabled:opacity-50"
+                  >
+                    {submission.flagged ? '✅ Clear Flag' : '🚩 Flag'}
+                  </button>
+                  <button
+                    onClick={() => handleModerate(entry, { hidden: !submission.hidden })}
+                    disabled={isUpdating}
+                    className="px-3 py-1 rounded-lg text-sm font-semibold border-2 border-gray-300 text-gray-800 hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    {submission.hidden ? '👁️ Show in Reveal' : '🙈 Hide from Reveal'}
+                  </button>
+                </div>
+              </div>
+              {!!submission.flaggedTerms?.length && (
+                <p className="text-xs text-orange-700">
+                  Content filter matched: {submission.flaggedTerms.join(', ')}
+                </p>
+              )}
+              <SubmissionAnswers prompts={prompts} answers={submission.answers} compact />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
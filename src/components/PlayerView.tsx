@@ -1,20 +1,56 @@
 import { useState, useEffect, useRef } from 'react';
+import { Link, useParams } from 'react-router-dom';
 import { useGame } from '../hooks/useGame';
+import { useCountdown } from '../hooks/useCountdown';
+import { DEFAULT_PREFERENCE_STRENGTH } from '../matchmaking';
+import { Answers, PreferenceStrength, PublicPlayerData } from '../types';
+import { areAnswersEqual, cleanAnswers, findMissingAnswer, getPrompts } from '../prompts';
+import { getScreenCopy } from '../promptTemplates';
+import { normalizeRoomCode } from '../utils/roomCode';
+import { Draft, saveLocalDraft, loadLocalDraft, clearLocalDraft, clearLocalDrafts } from '../utils/draftStorage';
+import DeadlineCountdown from './DeadlineCountdown';
+import SubmissionAnswers from './SubmissionAnswers';
 import { Star, Sparkles, SkipForward } from 'lucide-react';
 
+const PREFERENCE_STRENGTH_OPTIONS: Array<{ value: PreferenceStrength; label: string }> = [
+  { value: 1, label: 'Know a bit' },
+  { value: 2, label: 'Know well' },
+  { value: 3, label: 'Know very well' },
+];
+
+// Wait for a pause in typing before saving a draft to Firestore
+const DRAFT_SAVE_DELAY_MS = 1000;
+
+// Remind players with unsubmitted reflections when this many minutes are left
+const DEADLINE_REMINDER_MINUTES = [10, 5, 1];
+
+// 'local' means the Firestore save failed (e.g. offline) and only this device has the draft
+type DraftStatus = 'saving' | 'saved' | 'local';
+
 export default function PlayerView() {
+  const { code = '' } = useParams<{ code: string }>();
+  const roomId = normalizeRoomCode(code);
   const {
     gameData,
     players,
     loading,
+    roomNotFound,
     currentUserId,
     upsertPlayer,
     updatePlayerPreferences,
+    checkAvoid,
+    clockOffsetMs,
     submitWriting,
+    editSubmission,
+    withdrawSubmission,
+    loadDrafts,
+    saveDraft,
     revealWriterName,
     updatePlayerName,
     removePlayer,
-  } = useGame();
+  } = useGame(roomId);
+  const prompts = getPrompts(gameData?.config);
+  const screenCopy = getScreenCopy(gameData?.config);
 
   const [playerName, setPlayerName] = useState('');
   const [isJoining, setIsJoining] = useState(false);
@@ -24,9 +60,34 @@ export default function PlayerView() {
   const [isLeaving, setIsLeaving] = useState(false);
   const [localPreferences, setLocalPreferences] = useState<string[]>([]);
   const [localAvoids, setLocalAvoids] = useState<string[]>([]);
-  const [submissions, setSubmissions] = useState<Record<string, { impression: string; reality: string }>>({});
+  const [localPreferenceStrengths, setLocalPreferenceStrengths] = useState<PublicPlayerData['preferenceStrengths']>({});
+  const [checkingAvoidId, setCheckingAvoidId] = useState<string | null>(null);
+  // Answers being written, keyed by target ID
+  const [submissions, setSubmissions] = useState<Record<string, Answers>>({});
+  const [draftStatuses, setDraftStatuses] = useState<Record<string, DraftStatus>>({});
+  // Submitted reflections the player has reopened for editing
+  const [editingTargetIds, setEditingTargetIds] = useState<string[]>([]);
+  const [changingTargetId, setChangingTargetId] = useState<string | null>(null);
   const previousWritingStatusRef = useRef<string | undefined>(undefined);
   const initializedSubmissionsRef = useRef(false);
+  const draftsRestoredRef = useRef(false);
+  const draftTimersRef = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+  const [deadlineReminder, setDeadlineReminder] = useState<string | null>(null);
+  // Last reminder shown, so each threshold fires once per deadline
+  const lastReminderRef = useRef<{ endsAt: number; minutes: number } | null>(null);
+
+  const writingDeadline = gameData?.status === 'WRITING' ? gameData.writingDeadline : null;
+  const remainingMs = useCountdown(writingDeadline?.endsAt, clockOffsetMs);
+  const isWritingClosed = remainingMs === 0;
+  // Also re-renders when the edit lock passes, so the Edit and Withdraw buttons go away on time
+  const editLockAt = gameData?.status === 'WRITING' ? gameData.config.editLockAt : null;
+  const isEditLocked = useCountdown(editLockAt, clockOffsetMs) === 0;
+
+  // Don't let a pending draft save fire after leaving the page
+  useEffect(() => {
+    const timers = draftTimersRef.current;
+    return () => Object.values(timers).forEach(clearTimeout);
+  }, []);
 
   // Load current player's preferences
   useEffect(() => {
@@ -35,6 +96,7 @@ export default function PlayerView() {
       if (currentPlayer) {
         setLocalPreferences([...currentPlayer.data.preferences]);
         setLocalAvoids([...currentPlayer.data.avoids]);
+        setLocalPreferenceStrengths({ ...currentPlayer.data.preferenceStrengths });
       }
     }
   }, [currentUserId, gameData?.status, players]);
@@ -49,7 +111,9 @@ export default function PlayerView() {
         
         // If we just entered WRITING phase, initialize from Firestore
         if (previousWritingStatusRef.current !== 'WRITING') {
-          setSubmissions({ ...firestoreSubmissions });
+          setSubmissions(Object.fromEntries(
+            Object.entries(firestoreSubmissions).map(([targetId, submission]) => [targetId, { ...submission.answers }])
+          ));
           initializedSubmissionsRef.current = true;
         } else {
           // We're already in WRITING phase - only update if Firestore has NEW submissions
@@ -69,16 +133,10 @@ export default function PlayerView() {
               // This prevents overwriting unsaved local changes
               if (!prevSubmissions[targetId]) {
                 // New submission from Firestore - add it
-                merged[targetId] = {
-                  impression: firestoreSubmission.impression || '',
-                  reality: firestoreSubmission.reality || '',
-                };
-              } else if (prevSubmissions[targetId].reality === firestoreSubmission.reality) {
+                merged[targetId] = { ...firestoreSubmission.answers };
+              } else if (areAnswersEqual(cleanAnswers(prompts, prevSubmissions[targetId]), firestoreSubmission.answers)) {
                 // Local matches Firestore (was saved) - sync to get any other updates
-                merged[targetId] = {
-                  impression: firestoreSubmission.impression || '',
-                  reality: firestoreSubmission.reality || '',
-                };
+                merged[targetId] = { ...firestoreSubmission.answers };
               }
               // Otherwise, keep local unsaved changes (user is typing)
             });
@@ -90,10 +148,89 @@ export default function PlayerView() {
     } else {
       // Reset when leaving WRITING phase
       initializedSubmissionsRef.current = false;
+      draftsRestoredRef.current = false;
     }
     
     previousWritingStatusRef.current = gameData?.status;
-  }, [currentUserId, gameData?.status, players]);
+  }, [currentUserId, gameData?.status, players, prompts]);
+
+  // A reset sends the room back to the lobby, so any drafts on this device are from the old round
+  useEffect(() => {
+    if (gameData?.status === 'LOBBY') {
+      clearLocalDrafts(roomId);
+    }
+  }, [gameData?.status, roomId]);
+
+  // Remind the player as the deadline gets close, if they still have reflections to submit
+  useEffect(() => {
+    if (!writingDeadline || remainingMs === null || remainingMs === 0 || !currentUserId) {
+      setDeadlineReminder(null);
+      return;
+    }
+    const currentPlayer = players.find(p => p.uid === currentUserId);
+    const unsubmittedCount = currentPlayer
+      ? currentPlayer.data.assignments.filter(targetId => !(targetId in currentPlayer.data.submissions)).length
+      : 0;
+    if (unsubmittedCount === 0) {
+      setDeadlineReminder(null);
+      return;
+    }
+
+    // Smallest threshold already reached, e.g. 5 when 3 minutes are left
+    const minutes = [...DEADLINE_REMINDER_MINUTES]
+      .sort((a, b) => a - b)
+      .find(threshold => remainingMs <= threshold * 60 * 1000);
+    const lastReminder = lastReminderRef.current;
+    if (minutes === undefined || (lastReminder?.endsAt === writingDeadline.endsAt && lastReminder.minutes === minutes)) {
+      return;
+    }
+    lastReminderRef.current = { endsAt: writingDeadline.endsAt, minutes };
+    setDeadlineReminder(
+      `⏰ Less than ${minutes} minute${minutes === 1 ? '' : 's'} left! You still have ${unsubmittedCount} reflection${unsubmittedCount === 1 ? '' : 's'} to submit.`
+    );
+  }, [writingDeadline, remainingMs, currentUserId, players]);
+
+  // Restore unsubmitted drafts once per WRITING phase (e.g. after a reload),
+  // taking the newer of the local and Firestore copies
+  useEffect(() => {
+    if (!currentUserId || gameData?.status !== 'WRITING' || draftsRestoredRef.current) return;
+    const currentPlayer = players.find(p => p.uid === currentUserId);
+    if (!currentPlayer) return;
+    draftsRestoredRef.current = true;
+
+    const targetIds = currentPlayer.data.assignments.filter(targetId => !(targetId in currentPlayer.data.submissions));
+    if (targetIds.length === 0) return;
+
+    loadDrafts(currentUserId)
+      .catch(() => ({} as Awaited<ReturnType<typeof loadDrafts>>))
+      .then(savedDrafts => {
+        const restored: Record<string, Draft> = {};
+        const statuses: Record<string, DraftStatus> = {};
+        targetIds.forEach(targetId => {
+          const localDraft = loadLocalDraft(roomId, currentUserId, targetId);
+          const savedDraft = savedDrafts[targetId];
+          if (localDraft && (!savedDraft || localDraft.savedAt > savedDraft.savedAt)) {
+            restored[targetId] = localDraft;
+            statuses[targetId] = 'local';
+          } else if (savedDraft) {
+            restored[targetId] = savedDraft;
+            statuses[targetId] = 'saved';
+          }
+        });
+
+        // Anything typed while the drafts were loading wins
+        setSubmissions(prev => {
+          const merged = { ...prev };
+          Object.entries(restored).forEach(([targetId, { answers }]) => {
+            if (!merged[targetId]) {
+              merged[targetId] = { ...answers };
+            }
+          });
+          return merged;
+        });
+        setDraftStatuses(prev => ({ ...statuses, ...prev }));
+      });
+  }, [currentUserId, gameData?.status, players, roomId, loadDrafts]);
 
   const handleJoin = async () => {
     if (!playerName.trim() || !currentUserId) return;
@@ -147,15 +284,32 @@ export default function PlayerView() {
     // Remove from avoids if adding to preferences
     const newAvoids = localAvoids.filter(id => id !== targetId);
     
+    // New picks start at the default strength
+    const newStrengths = isCurrentlyStarred
+      ? localPreferenceStrengths
+      : { ...localPreferenceStrengths, [targetId]: DEFAULT_PREFERENCE_STRENGTH };
+    
     setLocalPreferences(newPreferences);
     setLocalAvoids(newAvoids);
+    setLocalPreferenceStrengths(newStrengths);
     
-    updatePlayerPreferences(currentUserId, newPreferences, newAvoids).catch(err => {
+    updatePlayerPreferences(currentUserId, newPreferences, newAvoids, newStrengths).catch(err => {
       console.error('Error updating preferences:', err);
     });
   };
 
-  const handleToggleAvoid = (targetId: string) => {
+  const handleSetPreferenceStrength = (targetId: string, strength: PreferenceStrength) => {
+    if (!currentUserId) return;
+    
+    const newStrengths = { ...localPreferenceStrengths, [targetId]: strength };
+    setLocalPreferenceStrengths(newStrengths);
+    
+    updatePlayerPreferences(currentUserId, localPreferences, localAvoids, newStrengths).catch(err => {
+      console.error('Error updating preferences:', err);
+    });
+  };
+
+  const handleToggleAvoid = async (targetId: string) => {
     if (!currentUserId) return;
     
     const maxAvoids = gameData?.config.maxAvoids || 5;
@@ -167,6 +321,23 @@ export default function PlayerView() {
       return;
     }
     
+    // Block avoids that would make matching impossible. If the check itself fails,
+    // let the choice through: the host still sees conflicts before matchmaking.
+    if (!isCurrentlyBlocked) {
+      setCheckingAvoidId(targetId);
+      try {
+        const { allowed, reason } = await checkAvoid(targetId);
+        if (!allowed) {
+          alert(reason);
+          return;
+        }
+      } catch (err) {
+        console.error('Error checking Skip this round choice:', err);
+      } finally {
+        setCheckingAvoidId(null);
+      }
+    }
+    
     const newAvoids = isCurrentlyBlocked
       ? localAvoids.filter(id => id !== targetId)
       : [...localAvoids, targetId];
@@ -177,33 +348,114 @@ export default function PlayerView() {
     setLocalPreferences(newPreferences);
     setLocalAvoids(newAvoids);
     
-    updatePlayerPreferences(currentUserId, newPreferences, newAvoids).catch(err => {
+    updatePlayerPreferences(currentUserId, newPreferences, newAvoids, localPreferenceStrengths).catch(err => {
       console.error('Error updating preferences:', err);
     });
   };
 
+  // Keep the text locally right away and save it to Firestore once typing pauses
+  const handleDraftChange = (targetId: string, answers: Answers) => {
+    if (!currentUserId) return;
+    const uid = currentUserId;
+
+    setSubmissions(prev => ({ ...prev, [targetId]: answers }));
+    // Edits to a submitted reflection aren't drafts; the submitted text stays safe until saved
+    if (players.find(p => p.uid === uid)?.data.submissions[targetId]) return;
+    const savedAt = Date.now();
+    saveLocalDraft(roomId, uid, targetId, { answers, savedAt });
+    setDraftStatuses(prev => ({ ...prev, [targetId]: 'saving' }));
+
+    clearTimeout(draftTimersRef.current[targetId]);
+    draftTimersRef.current[targetId] = setTimeout(() => {
+      delete draftTimersRef.current[targetId];
+      saveDraft(uid, targetId, answers, savedAt)
+        .then(() => setDraftStatuses(prev => ({ ...prev, [targetId]: 'saved' })))
+        .catch(() => setDraftStatuses(prev => ({ ...prev, [targetId]: 'local' })));
+    }, DRAFT_SAVE_DELAY_MS);
+  };
+
   const handleSubmitWriting = async (targetId: string) => {
     if (!currentUserId) return;
     
-    const submission = submissions[targetId];
-    if (!submission?.reality.trim()) {
-      alert('Please fill in the "What you want to tell them" field');
+    const answers = submissions[targetId] || {};
+    const missingPrompt = findMissingAnswer(prompts, answers);
+    if (missingPrompt) {
+      alert(`Please fill in the "${missingPrompt.label}" field`);
       return;
     }
 
+    // A pending draft save must not land after the submission
+    clearTimeout(draftTimersRef.current[targetId]);
+    delete draftTimersRef.current[targetId];
+
     try {
-      await submitWriting(
-        currentUserId,
-        targetId,
-        submission.impression?.trim() || '', // Optional - can be empty
-        submission.reality.trim()
-      );
+      await submitWriting(currentUserId, targetId, cleanAnswers(prompts, answers));
+      clearLocalDraft(roomId, currentUserId, targetId);
     } catch (err) {
       console.error('Error submitting writing:', err);
       alert('Failed to submit. Please try again.');
     }
   };
 
+  const handleStartEdit = (targetId: string) => {
+    setEditingTargetIds(prev => [...prev, targetId]);
+  };
+
+  const handleCancelEdit = (targetId: string) => {
+    const submitted = currentUserId ? players.find(p => p.uid === currentUserId)?.data.submissions[targetId] : undefined;
+    if (submitted) {
+      setSubmissions(prev => ({ ...prev, [targetId]: { ...submitted.answers } }));
+    }
+    setEditingTargetIds(prev => prev.filter(id => id !== targetId));
+  };
+
+  const handleSaveEdit = async (targetId: string) => {
+    if (!currentUserId) return;
+
+    const answers = submissions[targetId] || {};
+    const missingPrompt = findMissingAnswer(prompts, answers);
+    if (missingPrompt) {
+      alert(`Please fill in the "${missingPrompt.label}" field`);
+      return;
+    }
+
+    setChangingTargetId(targetId);
+    try {
+      await editSubmission(currentUserId, targetId, cleanAnswers(prompts, answers));
+      setEditingTargetIds(prev => prev.filter(id => id !== targetId));
+    } catch (err) {
+      console.error('Error editing submission:', err);
+      alert(err instanceof Error ? err.message : 'Failed to save your changes. Please try again.');
+    } finally {
+      setChangingTargetId(null);
+    }
+  };
+
+  const handleWithdraw = async (targetId: string) => {
+    if (!currentUserId) return;
+    if (!confirm('Withdraw this reflection? It goes back to being a draft, and it will not be revealed unless you submit it again.')) {
+      return;
+    }
+
+    const submitted = players.find(p => p.uid === currentUserId)?.data.submissions[targetId];
+    setChangingTargetId(targetId);
+    try {
+      await withdrawSubmission(currentUserId, targetId);
+      // The withdrawn text was saved as a Firestore draft; keep a local copy too
+      if (submitted) {
+        setSubmissions(prev => ({ ...prev, [targetId]: { ...submitted.answers } }));
+        saveLocalDraft(roomId, currentUserId, targetId, { answers: submitted.answers, savedAt: Date.now() });
+        setDraftStatuses(prev => ({ ...prev, [targetId]: 'saved' }));
+      }
+      setEditingTargetIds(prev => prev.filter(id => id !== targetId));
+    } catch (err) {
+      console.error('Error withdrawing submission:', err);
+      alert(err instanceof Error ? err.message : 'Failed to withdraw. Please try again.');
+    } finally {
+      setChangingTargetId(null);
+    }
+  };
+
   const currentPlayer = currentUserId ? players.find(p => p.uid === currentUserId) : null;
   const otherPlayers = players.filter(p => p.uid !== currentUserId);
 
@@ -218,13 +470,78 @@ export default function PlayerView() {
     );
   }
 
+  if (roomNotFound) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-red-50 to-green-50 flex items-center justify-center p-4">
+        <div className="text-center max-w-md">
+          <div className="text-7xl mb-4">🔍</div>
+          <h1 className="text-3xl font-bold text-red-600 mb-3">Room not found</h1>
+          <p className="text-gray-700 mb-6">Double-check the code your host shared and try again.</p>
+          <Link
+            to="/"
+            className="inline-block px-6 py-3 bg-gradient-to-r from-red-600 to-red-700 text-white rounded-xl font-bold hover:from-red-700 hover:to-red-800 transition-all transform hover:scale-105 shadow-lg"
+          >
+            🔑 Enter another code
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  // Only check Firestore data - if currentPlayer exists and has a name, they've joined
+  // Don't check playerName state (input field) - that changes as user types
+  // The onSnapshot listener will automatically update players array when Firestore changes
+  const playerNameFromFirestore = currentPlayer?.data.name;
+  const hasJoined = !!playerNameFromFirestore && playerNameFromFirestore.trim().length > 0;
+
+  const joinForm = (
+    <div>
+      <input
+        type="text"
+        value={playerName}
+        onChange={(e) => setPlayerName(e.target.value)}
+        onKeyPress={(e) => e.key === 'Enter' && handleJoin()}
+        placeholder="🎅 Enter your name"
+        className="w-full px-4 py-3 border-3 border-red-300 rounded-xl focus:border-red-500 focus:ring-4 focus:ring-red-200 focus:outline-none text-lg shadow-inner"
+        disabled={isJoining}
+      />
+      <button
+        onClick={handleJoin}
+        disabled={!playerName.trim() || isJoining}
+        className="w-full mt-4 bg-gradient-to-r from-red-600 to-red-700 text-white py-4 rounded-xl font-bold text-lg hover:from-red-700 hover:to-red-800 disabled:opacity-50 disabled:cursor-not-allowed transition-all transform hover:scale-105 shadow-lg"
+      >
+        {isJoining ? '⏳ Joining...' : '🎄 Join Game'}
+      </button>
+    </div>
+  );
+
+  // Late joiners: the game has moved past the lobby, but players can still join until the
+  // reveal. During WRITING the host adds them to the round from the admin panel.
+  if (!hasJoined && (gameData?.status === 'PREFERENCES' || gameData?.status === 'WRITING')) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-red-50 via-white to-green-50 flex items-center justify-center p-4">
+        <div className="max-w-md w-full bg-white rounded-3xl shadow-2xl p-8 border-4 border-red-300" style={{
+          background: 'linear-gradient(135deg, #ffffff 0%, #fef2f2 100%)',
+        }}>
+          <div className="text-center mb-8">
+            <div className="text-6xl mb-4">🕒</div>
+            <h1 className="text-4xl font-bold mb-3 bg-gradient-to-r from-red-600 via-red-500 to-green-600 bg-clip-text text-transparent">
+              Join in progress
+            </h1>
+            <p className="text-gray-700 font-medium">
+              {gameData.status === 'PREFERENCES'
+                ? 'Players are choosing who to write about. Join now to choose too.'
+                : 'Writing has started. Join now and the host can add you to the writing round.'}
+            </p>
+          </div>
+          {joinForm}
+        </div>
+      </div>
+    );
+  }
+
   // LOBBY Phase
   if (gameData?.status === 'LOBBY') {
-    // Only check Firestore data - if currentPlayer exists and has a name, they've joined
-    // Don't check playerName state (input field) - that changes as user types
-    // The onSnapshot listener will automatically update players array when Firestore changes
-    const playerNameFromFirestore = currentPlayer?.data.name;
-    const hasJoined = playerNameFromFirestore && playerNameFromFirestore.trim().length > 0;
     const showJoinForm = !hasJoined;
     
     // Debug: log the state to help diagnose issues
@@ -250,26 +567,7 @@ export default function PlayerView() {
             <p className="text-lg text-gray-700 font-medium">✨ Join the Christmas gathering ✨</p>
           </div>
           
-          {showJoinForm ? (
-            <div>
-              <input
-                type="text"
-                value={playerName}
-                onChange={(e) => setPlayerName(e.target.value)}
-                onKeyPress={(e) => e.key === 'Enter' && handleJoin()}
-                placeholder="🎅 Enter your name"
-                className="w-full px-4 py-3 border-3 border-red-300 rounded-xl focus:border-red-500 focus:ring-4 focus:ring-red-200 focus:outline-none text-lg shadow-inner"
-                disabled={isJoining}
-              />
-              <button
-                onClick={handleJoin}
-                disabled={!playerName.trim() || isJoining}
-                className="w-full mt-4 bg-gradient-to-r from-red-600 to-red-700 text-white py-4 rounded-xl font-bold text-lg hover:from-red-700 hover:to-red-800 disabled:opacity-50 disabled:cursor-not-allowed transition-all transform hover:scale-105 shadow-lg"
-              >
-                {isJoining ? '⏳ Joining...' : '🎄 Join Game'}
-              </button>
-            </div>
-          ) : (
+          {showJoinForm ? joinForm : (
             <div className="text-center">
               <div className="text-5xl mb-4">🎉</div>
               {!isEditingName ? (
@@ -385,9 +683,9 @@ export default function PlayerView() {
           <div className="text-center mb-8">
             <div className="text-5xl mb-3 animate-sparkle">🎅</div>
             <h1 className="text-4xl md:text-5xl font-bold mb-3 bg-gradient-to-r from-red-600 via-red-500 to-green-600 bg-clip-text text-transparent">
-              Set Your Preferences
+              {screenCopy.preferencesTitle}
             </h1>
-            <p className="text-lg text-gray-700 font-medium">✨ Mark your Merry Picks (optional) and who to Skip this round ✨</p>
+            <p className="text-lg text-gray-700 font-medium">{screenCopy.preferencesSubtitle}</p>
           </div>
 
           {/* Show current counts and limits */}
@@ -431,7 +729,7 @@ export default function PlayerView() {
                 </button>
                 <div className="text-left">
                   <p className="text-green-700 font-semibold">Merry Picks</p>
-                  <p className="text-xs text-gray-600">Optional - helps matchmaking</p>
+                  <p className="text-xs text-gray-600">Optional - say how well you know them</p>
                 </div>
               </div>
               
@@ -475,10 +773,32 @@ export default function PlayerView() {
                         : 'bg-gradient-to-r from-gray-50 to-gray-100 border-gray-300'
                     }`}
                   >
-                    <span className="text-lg font-bold text-gray-800 flex items-center gap-2">
-                      <span className="text-2xl">🎅</span>
-                      {player.data.name}
-                    </span>
+                    <div className="flex flex-col gap-2">
+                      <span className="text-lg font-bold text-gray-800 flex items-center gap-2">
+                        <span className="text-2xl">🎅</span>
+                        {player.data.name}
+                      </span>
+                      {isStarred && (
+                        <div className="flex flex-wrap gap-1">
+                          {PREFERENCE_STRENGTH_OPTIONS.map(option => {
+                            const isSelected = (localPreferenceStrengths[player.uid] || DEFAULT_PREFERENCE_STRENGTH) === option.value;
+                            return (
+                              <button
+                                key={option.value}
+                                onClick={() => handleSetPreferenceStrength(player.uid, option.value)}
+                                className={`px-2 py-1 rounded-lg text-xs font-semibold border-2 transition-all ${
+                                  isSelected
+                                    ? 'bg-green-600 border-green-700 text-white'
+                                    : 'bg-white border-green-300 text-green-700 hover:bg-green-50'
+                                }`}
+                              >
+                                {'⭐'.repeat(option.value)} {option.label}
+                              </button>
+                            );
+                          })}
+                        </div>
+                      )}
+                    </div>
                     
                     <div className="flex gap-3">
                       <button
@@ -504,7 +824,7 @@ export default function PlayerView() {
                       
                       <button
                         onClick={() => handleToggleAvoid(player.uid)}
-                        disabled={!canAddAvoid && !isBlocked}
+                        disabled={(!canAddAvoid && !isBlocked) || checkingAvoidId !== null}
                         className={`p-3 rounded-xl transition-all transform hover:scale-110 ${
                           isBlocked
                             ? 'bg-gradient-to-r from-blue-500 to-blue-600 text-white shadow-lg'
@@ -564,6 +884,7 @@ export default function PlayerView() {
   // WRITING Phase
   if (gameData?.status === 'WRITING') {
     const assignments = currentPlayer?.data.assignments || [];
+    const canChangeSubmissions = !isWritingClosed && !isEditLocked;
     
     if (assignments.length === 0) {
       return (
@@ -578,6 +899,7 @@ export default function PlayerView() {
             <div className="text-7xl mb-4 animate-sparkle">⏳</div>
             <Sparkles className="w-16 h-16 text-red-500 mx-auto animate-pulse" />
             <p className="mt-4 text-xl text-gray-700 font-semibold">Waiting for assignments...</p>
+            <p className="mt-2 text-gray-600">Joined after the others? The host can add you to the writing round.</p>
           </div>
         </div>
       );
@@ -589,17 +911,45 @@ export default function PlayerView() {
           <div className="text-center mb-8">
             <div className="text-5xl mb-3 animate-sparkle">✨</div>
             <h1 className="text-4xl md:text-5xl font-bold mb-3 bg-gradient-to-r from-red-600 via-red-500 to-green-600 bg-clip-text text-transparent">
-              Write Your Reflections
+              {screenCopy.writingTitle}
             </h1>
-            <p className="text-lg text-gray-700 font-medium">🎁 Share what you want to tell each person 🎁</p>
-            <p className="text-sm text-gray-600 mt-2">💡 Tip: The "First Impression" field is optional - you can skip it if you prefer</p>
+            <p className="text-lg text-gray-700 font-medium">{screenCopy.writingSubtitle}</p>
+            {prompts.some(prompt => !prompt.required) && (
+              <p className="text-sm text-gray-600 mt-2">💡 Tip: Fields marked (Optional) can be left empty</p>
+            )}
+            {writingDeadline && remainingMs !== null && (
+              <div className="mt-4 max-w-sm mx-auto">
+                <DeadlineCountdown remainingMs={remainingMs} onExpire={writingDeadline.onExpire} />
+              </div>
+            )}
+            {deadlineReminder && (
+              <div className="mt-4 max-w-xl mx-auto bg-gradient-to-r from-yellow-50 to-yellow-100 border-2 border-yellow-400 rounded-xl p-3 flex items-center justify-between gap-3">
+                <p className="text-sm font-semibold text-yellow-900">{deadlineReminder}</p>
+                <button
+                  onClick={() => setDeadlineReminder(null)}
+                  className="text-sm text-yellow-800 hover:text-yellow-950 font-semibold"
+                >
+                  Dismiss
+                </button>
+              </div>
+            )}
+            {editLockAt && !isWritingClosed && (
+              <p className="text-sm text-gray-600 mt-1">
+                {canChangeSubmissions
+                  ? `✏️ You can edit or withdraw submitted reflections until ${new Date(editLockAt).toLocaleString()}`
+                  : '🔒 Submitted reflections are locked'}
+              </p>
+            )}
           </div>
 
           <div className="space-y-6">
             {assignments.map(targetId => {
               const targetPlayer = players.find(p => p.uid === targetId);
-              const submission = submissions[targetId] || { impression: '', reality: '' };
+              const submission = submissions[targetId] || {};
               const isSubmitted = currentPlayer?.data.submissions[targetId];
+              const draftStatus = draftStatuses[targetId];
+              const isEditing = !!isSubmitted && canChangeSubmissions && editingTargetIds.includes(targetId);
+              const isChanging = changingTargetId === targetId;
 
               return (
                 <div
@@ -614,57 +964,95 @@ export default function PlayerView() {
                     About {targetPlayer?.data.name || 'Unknown'}
                   </h3>
 
-                  {isSubmitted ? (
+                  {!isSubmitted && isWritingClosed ? (
+                    <div className="bg-gradient-to-r from-gray-50 to-gray-100 border-3 border-gray-300 rounded-xl p-5 shadow-lg">
+                      <p className="text-gray-700 font-bold text-lg text-center">🔒 Writing has closed</p>
+                    </div>
+                  ) : isSubmitted && !isEditing ? (
                     <div className="bg-gradient-to-r from-green-50 to-green-100 border-3 border-green-400 rounded-xl p-5 shadow-lg">
                       <p className="text-green-700 font-bold text-lg flex items-center justify-center gap-2">
                         <span className="text-2xl">✅</span> Submitted!
                       </p>
+                      {canChangeSubmissions && (
+                        <div className="flex justify-center gap-3 mt-3">
+                          <button
+                            onClick={() => handleStartEdit(targetId)}
+                            disabled={isChanging}
+                            className="px-4 py-2 bg-white border-2 border-green-400 text-green-800 rounded-xl font-semibold hover:bg-green-50 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            ✏️ Edit
+                          </button>
+                          <button
+                            onClick={() => handleWithdraw(targetId)}
+                            disabled={isChanging}
+                            className="px-4 py-2 bg-white border-2 border-red-300 text-red-700 rounded-xl font-semibold hover:bg-red-50 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            {isChanging ? '⏳ Withdrawing...' : '↩️ Withdraw'}
+                          </button>
+                        </div>
+                      )}
                     </div>
                   ) : (
                     <>
-                      <div className="mb-5">
-                        <label className="block text-sm font-bold text-gray-700 mb-2 flex items-center gap-2">
-                          <span>💭</span> First Impression <span className="text-xs font-normal text-gray-500">(Optional)</span>
-                        </label>
-                        <textarea
-                          value={submission.impression}
-                          onChange={(e) =>
-                            setSubmissions({
-                              ...submissions,
-                              [targetId]: { ...submission, impression: e.target.value },
-                            })
-                          }
-                          placeholder="🎄 What was your first impression of this person? (Optional - leave empty if you prefer)"
-                          className="w-full px-4 py-3 border-3 border-red-300 rounded-xl focus:border-red-500 focus:ring-4 focus:ring-red-200 focus:outline-none resize-none shadow-inner"
-                          rows={4}
-                        />
-                      </div>
+                      {prompts.map(prompt => {
+                        const answer = submission[prompt.id] || '';
+                        return (
+                          <div key={prompt.id} className="mb-5">
+                            <label className="block text-sm font-bold text-gray-700 mb-2 flex items-center gap-2">
+                              <span>🌟</span> {prompt.label}
+                              {prompt.required
+                                ? <span className="text-xs font-normal text-red-600">*</span>
+                                : <span className="text-xs font-normal text-gray-500">(Optional)</span>}
+                            </label>
+                            <textarea
+                              value={answer}
+                              onChange={(e) => handleDraftChange(targetId, { ...submission, [prompt.id]: e.target.value })}
+                              placeholder={prompt.placeholder}
+                              maxLength={prompt.maxLength}
+                              className="w-full px-4 py-3 border-3 border-red-300 rounded-xl focus:border-red-500 focus:ring-4 focus:ring-red-200 focus:outline-none resize-none shadow-inner"
+                              rows={4}
+                              required={prompt.required}
+                            />
+                            {answer.length > prompt.maxLength * 0.8 && (
+                              <p className="mt-1 text-xs text-gray-500">{answer.length}/{prompt.maxLength} characters</p>
+                            )}
+                          </div>
+                        );
+                      })}
 
-                      <div className="mb-5">
-                        <label className="block text-sm font-bold text-gray-700 mb-2 flex items-center gap-2">
-                          <span>🌟</span> What You Want to Tell Them <span className="text-xs font-normal text-red-600">*</span>
-                        </label>
-                        <textarea
-                          value={submission.reality}
-                          onChange={(e) =>
-                            setSubmissions({
-                              ...submissions,
-                              [targetId]: { ...submission, reality: e.target.value },
-                            })
-                          }
-                          placeholder="🎁 What do you want to tell this person?"
-                          className="w-full px-4 py-3 border-3 border-red-300 rounded-xl focus:border-red-500 focus:ring-4 focus:ring-red-200 focus:outline-none resize-none shadow-inner"
-                          rows={4}
-                          required
-                        />
-                      </div>
+                      {draftStatus && !isEditing && (
+                        <p className={`-mt-3 mb-3 text-xs text-right ${draftStatus === 'local' ? 'text-yellow-700' : 'text-gray-500'}`}>
+                          {draftStatus === 'saving' && 'Saving draft…'}
+                          {draftStatus === 'saved' && '✓ Draft saved'}
+                          {draftStatus === 'local' && '💾 Draft saved on this device only'}
+                        </p>
+                      )}
 
-                      <button
-                        onClick={() => handleSubmitWriting(targetId)}
-                        className="w-full bg-gradient-to-r from-red-600 to-red-700 text-white py-4 rounded-xl font-bold text-lg hover:from-red-700 hover:to-red-800 transition-all transform hover:scale-105 shadow-lg"
-                      >
-                        🎄 Submit Reflection
-                      </button>
+                      {isEditing ? (
+                        <div className="flex gap-3">
+                          <button
+                            onClick={() => handleSaveEdit(targetId)}
+                            disabled={isChanging}
+                            className="flex-1 bg-gradient-to-r from-red-600 to-red-700 text-white py-4 rounded-xl font-bold text-lg hover:from-red-700 hover:to-red-800 transition-all transform hover:scale-105 shadow-lg disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none"
+                          >
+                            {isChanging ? '⏳ Saving...' : '💾 Save Changes'}
+                          </button>
+                          <button
+                            onClick={() => handleCancelEdit(targetId)}
+                            disabled={isChanging}
+                            className="px-6 py-4 bg-gray-200 text-gray-700 rounded-xl font-bold hover:bg-gray-300 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                          >
+                            Cancel
+                          </button>
+                        </div>
+                      ) : (
+                        <button
+                          onClick={() => handleSubmitWriting(targetId)}
+                          className="w-full bg-gradient-to-r from-red-600 to-red-700 text-white py-4 rounded-xl font-bold text-lg hover:from-red-700 hover:to-red-800 transition-all transform hover:scale-105 shadow-lg"
+                        >
+                          🎄 Submit Reflection
+                        </button>
+                      )}
                     </>
                   )}
                 </div>
@@ -686,7 +1074,8 @@ export default function PlayerView() {
       // Find all players who wrote about this person
       const writers = players.filter(p => 
         currentPlayerId && p.data.assignments.includes(currentPlayerId) && 
-        currentPlayerId in p.data.submissions
+        currentPlayerId in p.data.submissions &&
+        !p.data.submissions[currentPlayerId].hidden
       );
 
       return (
@@ -751,27 +1140,7 @@ export default function PlayerView() {
                         )}
                       </div>
                       
-                      <div className="space-y-4">
-                        {submission.impression && submission.impression.trim() && (
-                          <div>
-                            <h4 className="text-sm font-bold text-gray-700 mb-2 flex items-center gap-2">
-                              <span>💭</span> First Impression
-                            </h4>
-                            <p className="text-gray-800 bg-gradient-to-r from-gray-50 to-gray-100 p-5 rounded-xl border-2 border-gray-200 shadow-inner text-lg">
-                              {submission.impression}
-                            </p>
-                          </div>
-                        )}
-                        
-                        <div>
-                          <h4 className="text-sm font-bold text-gray-700 mb-2 flex items-center gap-2">
-                            <span>🌟</span> {submission.impression && submission.impression.trim() ? 'Reality' : 'What They Wanted to Tell You'}
-                          </h4>
-                          <p className="text-gray-800 bg-gradient-to-r from-gray-50 to-gray-100 p-5 rounded-xl border-2 border-gray-200 shadow-inner text-lg">
-                            {submission.reality}
-                          </p>
-                        </div>
-                      </div>
+                      <SubmissionAnswers prompts={prompts} answers={submission.answers} />
                     </div>
                   );
                 })}
@@ -786,7 +1155,8 @@ export default function PlayerView() {
       // Show other player's reveal
       const writers = players.filter(p => 
         p.data.assignments.includes(currentRevealId) && 
-        p.data.submissions[currentRevealId]
+        p.data.submissions[currentRevealId] &&
+        !p.data.submissions[currentRevealId].hidden
       );
 
       return (
@@ -843,27 +1213,7 @@ export default function PlayerView() {
                         )}
                       </div>
                       
-                      <div className="space-y-4">
-                        {submission.impression && submission.impression.trim() && (
-                          <div>
-                            <h4 className="text-sm font-bold text-gray-700 mb-2 flex items-center gap-2">
-                              <span>💭</span> First Impression
-                            </h4>
-                            <p className="text-gray-800 bg-gradient-to-r from-gray-50 to-gray-100 p-5 rounded-xl border-2 border-gray-200 shadow-inner text-lg">
-                              {submission.impression}
-                            </p>
-                          </div>
-                        )}
-                        
-                        <div>
-                          <h4 className="text-sm font-bold text-gray-700 mb-2 flex items-center gap-2">
-                            <span>🌟</span> {submission.impression && submission.impression.trim() ? 'Reality' : 'What They Wanted to Tell You'}
-                          </h4>
-                          <p className="text-gray-800 bg-gradient-to-r from-gray-50 to-gray-100 p-5 rounded-xl border-2 border-gray-200 shadow-inner text-lg">
-                            {submission.reality}
-                          </p>
-                        </div>
-                      </div>
+                      <SubmissionAnswers prompts={prompts} answers={submission.answers} />
                     </div>
                   );
                 })}
@@ -0,0 +1,120 @@
+import { ReflectionPrompt } from '../types';
+import { generatePromptId, MAX_ANSWER_LENGTH, MAX_PROMPTS } from '../prompts';
+
+interface PromptsEditorProps {
+  prompts: ReflectionPrompt[];
+  disabled?: boolean; // Prompts can't change once players are writing
+  onChange: (prompts: ReflectionPrompt[]) => void;
+}
+
+const inputClassName = 'px-3 py-2 border-3 border-red-300 rounded-xl focus:border-red-500 focus:ring-4 focus:ring-red-200 focus:outline-none shadow-inner disabled:opacity-50';
+
+export default function PromptsEditor({ prompts, disabled = false, onChange }: PromptsEditorProps) {
+  const updatePrompt = (index: number, changes: Partial<ReflectionPrompt>) => {
+    onChange(prompts.map((prompt, i) => (i === index ? { ...prompt, ...changes } : prompt)));
+  };
+
+  const updatePlaceholder = (index: number, placeholder: string) => {
+    onChange(prompts.map((prompt, i) => {
+      if (i !== index) return prompt;
+      // Firestore rejects undefined fields, so an empty placeholder is removed
+      const next = { ...prompt };
+      if (placeholder) {
+        next.placeholder = placeholder;
+      } else {
+        delete next.placeholder;
+      }
+      return next;
+    }));
+  };
+
+  const movePrompt = (index: number, offset: number) => {
+    const next = [...prompts];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const handleAddPrompt = () => {
+    onChange([...prompts, { id: generatePromptId(), label: '', required: false, maxLength: 1000 }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      {prompts.map((prompt, index) => (
+        <div key={prompt.id} className="bg-white p-3 rounded-lg border-2 border-gray-200 space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              value={prompt.label}
+              onChange={(e) => updatePrompt(index, { label: e.target.value })}
+              disabled={disabled}
+              placeholder="Question or field label"
+              className={`flex-1 ${inputClassName}`}
+            />
+            <button
+              onClick={() => movePrompt(index, -1)}
+              disabled={disabled || index === 0}
+              className="px-2 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+              title="Move up"
+            >
+              ↑
+            </button>
+            <button
+              onClick={() => movePrompt(index, 1)}
+              disabled={disabled || index === prompts.length - 1}
+              className="px-2 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+              title="Move down"
+            >
+              ↓
+            </button>
+            <button
+              onClick={() => onChange(prompts.filter((_, i) => i !== index))}
+              disabled={disabled || prompts.length === 1}
+              className="text-red-600 hover:text-red-800 font-semibold disabled:opacity-30"
+            >
+              Remove
+            </button>
+          </div>
+          <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+            <input
+              value={prompt.placeholder || ''}
+              onChange={(e) => updatePlaceholder(index, e.target.value)}
+              disabled={disabled}
+              placeholder="Hint shown in the empty field (optional)"
+              className={`flex-1 min-w-48 ${inputClassName}`}
+            />
+            <label className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={prompt.required}
+                onChange={(e) => updatePrompt(index, { required: e.target.checked })}
+                disabled={disabled}
+                className="w-4 h-4"
+              />
+              Required
+            </label>
+            <label className="flex items-center gap-2">
+              Max
+              <input
+                type="number"
+                min="1"
+                max={MAX_ANSWER_LENGTH}
+                value={prompt.maxLength}
+                onChange={(e) => updatePrompt(index, { maxLength: Math.min(MAX_ANSWER_LENGTH, Math.max(1, parseInt(e.target.value) || 1)) })}
+                disabled={disabled}
+                className={`w-24 ${inputClassName}`}
+              />
+              characters
+            </label>
+          </div>
+        </div>
+      ))}
+      <button
+        onClick={handleAddPrompt}
+        disabled={disabled || prompts.length >= MAX_PROMPTS}
+        className="px-4 py-2 bg-gradient-to-r from-purple-600 to-purple-700 text-white rounded-xl font-bold hover:from-purple-700 hover:to-purple-800 transition-all shadow-lg disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Add Prompt
+      </button>
+    </div>
+  );
+}
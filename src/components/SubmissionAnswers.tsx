@@ -0,0 +1,41 @@
+import { Answers, ReflectionPrompt } from '../types';
+
+interface SubmissionAnswersProps {
+  prompts: ReflectionPrompt[];
+  answers: Answers;
+  compact?: boolean; // One line per answer, for the admin panel
+}
+
+/**
+ * A submission's answers in prompt order. Prompts left unanswered are skipped.
+ */
+export default function SubmissionAnswers({ prompts, answers, compact = false }: SubmissionAnswersProps) {
+  const answered = prompts.filter(prompt => answers[prompt.id]?.trim());
+
+  if (compact) {
+    return (
+      <div className="space-y-2">
+        {answered.map(prompt => (
+          <p key={prompt.id} className="text-sm text-gray-700">
+            <strong className="text-gray-800">{prompt.label}:</strong> {answers[prompt.id]}
+          </p>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {answered.map(prompt => (
+        <div key={prompt.id}>
+          <h4 className="text-sm font-bold text-gray-700 mb-2 flex items-center gap-2">
+            <span>🌟</span> {prompt.label}
+          </h4>
+          <p className="text-gray-800 bg-gradient-to-r from-gray-50 to-gray-100 p-5 rounded-xl border-2 border-gray-200 shadow-inner text-lg">
+            {answers[prompt.id]}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { Player, ReflectionPrompt, SubmissionHistoryDoc } from '../types';
+import SubmissionAnswers from './SubmissionAnswers';
+
+interface SubmissionHistoryPanelProps {
+  history: SubmissionHistoryDoc[]; // Newest first
+  players: Player[];
+  prompts: ReflectionPrompt[];
+}
+
+const changeLabels: Record<SubmissionHistoryDoc['change'], string> = {
+  edited: '✏️ edited',
+  withdrawn: '↩️ withdrew',
+};
+
+export default function SubmissionHistoryPanel({ history, players, prompts }: SubmissionHistoryPanelProps) {
+  const nameOf = (uid: string) => players.find(p => p.uid === uid)?.data.name || 'Unknown';
+  // Writers' names are left out, as in the moderation queue, unless they revealed them on
+  // that reflection. This only keeps names off the screen: hosts can read writerId.
+  const writerLabel = (entry: SubmissionHistoryDoc) =>
+    players.find(p => p.uid === entry.writerId)?.data.submissions[entry.targetId]?.writerRevealed
+      ? nameOf(entry.writerId)
+      : 'A writer';
+
+  return (
+    <div className="bg-white rounded-xl p-4 border-2 border-gray-200 space-y-2">
+      <p className="font-bold text-gray-800">📝 Changed after submitting ({history.length})</p>
+      <ul className="space-y-2 max-h-72 overflow-auto">
+        {history.map((entry, index) => (
+          <li key={index} className="text-sm text-gray-700 border-t border-gray-100 pt-2">
+            <details>
+              <summary className="cursor-pointer">
+                {writerLabel(entry)} {changeLabels[entry.change]} their reflection about {nameOf(entry.targetId)}
+                <span className="text-gray-400"> · {new Date(entry.changedAt).toLocaleTimeString()}</span>
+              </summary>
+              <div className="mt-2 ml-4 space-y-1">
+                <p className="text-xs font-semibold text-gray-500">Previous version:</p>
+                <SubmissionAnswers prompts={prompts} answers={entry.answers} compact />
+              </div>
+            </details>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
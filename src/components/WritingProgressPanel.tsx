@@ -0,0 +1,76 @@
+import { WritingProgress } from '../utils/writingProgress';
+
+interface WritingProgressPanelProps {
+  progress: WritingProgress;
+}
+
+export default function WritingProgressPanel({ progress }: WritingProgressPanelProps) {
+  const percent = Math.round(progress.completionRate * 100);
+  const isComplete = progress.submitted === progress.assigned;
+
+  return (
+    <div className="space-y-4">
+      <div className={`p-4 rounded-xl border-2 ${
+        isComplete
+          ? 'bg-gradient-to-r from-green-50 to-green-100 border-green-300'
+          : 'bg-gradient-to-r from-yellow-50 to-yellow-100 border-yellow-300'
+      }`}>
+        <div className="flex items-baseline justify-between mb-2">
+          <p className="text-sm font-semibold text-gray-700">
+            {isComplete ? '✅ All reflections are in - ready for the reveal' : '✍️ Reflections submitted'}
+          </p>
+          <p className="text-2xl font-bold text-gray-800">
+            {progress.submitted}/{progress.assigned} <span className="text-base text-gray-600">({percent}%)</span>
+          </p>
+        </div>
+        <div className="w-full h-3 bg-white rounded-full border border-gray-200 overflow-hidden">
+          <div
+            className={`h-full ${isComplete ? 'bg-green-500' : 'bg-yellow-500'}`}
+            style={{ width: `${percent}%` }}
+          />
+        </div>
+      </div>
+
+      {progress.incompleteTargets.length > 0 && (
+        <div className="bg-white rounded-xl p-4 border-2 border-yellow-300">
+          <p className="text-sm font-bold text-gray-700 mb-2">🎁 Still waiting for reflections:</p>
+          <ul className="text-sm text-gray-700 space-y-1">
+            {progress.incompleteTargets.map(target => (
+              <li key={target.playerId} className="flex justify-between">
+                <span className={target.received === 0 ? 'font-semibold text-red-700' : ''}>{target.playerName}</span>
+                <span className="text-gray-500">{target.received}/{target.expected} received</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl p-4 border-2 border-gray-200 max-h-72 overflow-auto">
+        {/* Counts only: naming the targets a writer still owes would show the host who wrote the rest */}
+        <p className="text-sm font-bold text-gray-700 mb-2">📝 Per-writer progress</p>
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="py-1">Writer</th>
+              <th className="py-1">Submitted</th>
+              <th className="py-1">Still to write</th>
+            </tr>
+          </thead>
+          <tbody>
+            {progress.writers.map(writer => (
+              <tr key={writer.playerId} className="border-t border-gray-100">
+                <td className="py-1 font-medium text-gray-800">{writer.playerName}</td>
+                <td className={`py-1 ${writer.submitted === writer.assigned ? 'text-green-700' : 'text-gray-700'}`}>
+                  {writer.submitted}/{writer.assigned}
+                </td>
+                <td className="py-1 text-gray-600">
+                  {writer.submitted === writer.assigned ? '✅ Done' : writer.assigned - writer.submitted}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { initializeApp, FirebaseApp } from 'firebase/app';
-import { getAuth, Auth, signInAnonymously } from 'firebase/auth';
-import { getFirestore, Firestore } from 'firebase/firestore';
+import { getAuth, Auth, signInAnonymously, connectAuthEmulator } from 'firebase/auth';
+import { getFirestore, Firestore, connectFirestoreEmulator } from 'firebase/firestore';
+import { getFunctions, Functions, connectFunctionsEmulator } from 'firebase/functions';
 
 // Firebase configuration - Replace with your actual config
 const firebaseConfig = {
@@ -21,6 +22,7 @@ const isFirebaseConfigured =
 let app: FirebaseApp | null = null;
 let auth: Auth | null = null;
 let db: Firestore | null = null;
+let functions: Functions | null = null;
 
 try {
   if (isFirebaseConfigured) {
@@ -28,12 +30,21 @@ try {
     auth = getAuth(app);
     // Initialize Firestore with the named database "christmas-metaphor"
     db = getFirestore(app, 'christmas-metaphor');
+    // Trusted server-side operations such as matchmaking (see functions/)
+    functions = getFunctions(app);
+
+    // Point at the local emulators (see firebase.json) when running `firebase emulators:start`
+    if (import.meta.env.VITE_USE_FIREBASE_EMULATORS === 'true') {
+      connectAuthEmulator(auth, 'http://127.0.0.1:9099', { disableWarnings: true });
+      connectFirestoreEmulator(db, '127.0.0.1', 8080);
+      connectFunctionsEmulator(functions, '127.0.0.1', 5001);
+    }
   }
 } catch (error) {
   console.error('Firebase initialization error:', error);
 }
 
-export { auth, db, isFirebaseConfigured };
+export { auth, db, functions, isFirebaseConfigured };
 
 // Anonymous auth helper
 export const signInAnonymouslyUser = async () => {
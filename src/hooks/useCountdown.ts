@@ -0,0 +1,23 @@
+import { useState, useEffect } from 'react';
+
+const getRemainingMs = (endsAt: number | null | undefined, clockOffsetMs: number) =>
+  endsAt ? Math.max(0, endsAt - (Date.now() + clockOffsetMs)) : null;
+
+/**
+ * Milliseconds left until endsAt (on the server's clock), updated every second.
+ * Null when there is no deadline; never below zero.
+ */
+export function useCountdown(endsAt: number | null | undefined, clockOffsetMs: number): number | null {
+  const [remainingMs, setRemainingMs] = useState(() => getRemainingMs(endsAt, clockOffsetMs));
+
+  useEffect(() => {
+    const update = () => setRemainingMs(getRemainingMs(endsAt, clockOffsetMs));
+    update();
+    if (!endsAt) return;
+
+    const interval = setInterval(update, 1000);
+    return () => clearInterval(interval);
+  }, [endsAt, clockOffsetMs]);
+
+  return remainingMs;
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { 
   doc, 
   getDoc, 
@@ -6,25 +6,170 @@ import {
   setDoc, 
   collection, 
   query, 
+  where,
   getDocs,
   writeBatch,
-  updateDoc
+  updateDoc,
+  Firestore,
+  WriteBatch
 } from 'firebase/firestore';
 import { onAuthStateChanged } from 'firebase/auth';
-import { db, auth, isFirebaseConfigured, signInAnonymouslyUser } from '../firebase';
-import { GameData, PlayerData, Player } from '../types';
+import { httpsCallable, FunctionsError } from 'firebase/functions';
+import { db, auth, functions, isFirebaseConfigured, signInAnonymouslyUser } from '../firebase';
+import { AssignmentChanges, ConflictAnalysis, MatchmakingReport } from '../matchmaking';
+import { DEFAULT_PROMPTS } from '../prompts';
+import { DEFAULT_SCREEN_COPY } from '../promptTemplates';
+import { findFlaggedTerms } from '../utils/contentFilter';
+import { isValidRoomCode } from '../utils/roomCode';
+import { clearLocalDrafts } from '../utils/draftStorage';
+import {
+  GameData,
+  PlayerData,
+  Player,
+  CoHostData,
+  CoHostInvite,
+  PublicPlayerData,
+  PrivatePlayerData,
+  Submission,
+  SubmissionDoc,
+  SubmissionHistoryDoc,
+  SubmissionChange,
+  DraftDoc,
+  Answers,
+  DeadlineAction,
+  WritingDeadline,
+  Assignment,
+} from '../types';
 
-// Document path: collection "christmas-metaphor", document "live_event"
-const GAME_DOC_PATH = 'christmas-metaphor/live_event';
-const PLAYERS_COLLECTION = 'christmas-metaphor/live_event/players';
+// Each room is a document in the "christmas-metaphor" collection, keyed by its join code
+const GAMES_COLLECTION = 'christmas-metaphor';
+
+const getGameDocPath = (roomId: string) => `${GAMES_COLLECTION}/${roomId}`;
+const getPlayersCollectionPath = (roomId: string) => `${GAMES_COLLECTION}/${roomId}/players`;
+const getPrivatePlayerDataCollectionPath = (roomId: string) => `${GAMES_COLLECTION}/${roomId}/privatePlayerData`;
+const getSubmissionsCollectionPath = (roomId: string) => `${GAMES_COLLECTION}/${roomId}/submissions`;
+const getSubmissionHistoryCollectionPath = (roomId: string) => `${GAMES_COLLECTION}/${roomId}/submissionHistory`;
+const getDraftsCollectionPath = (roomId: string) => `${GAMES_COLLECTION}/${roomId}/drafts`;
+const getCoHostsCollectionPath = (roomId: string) => `${GAMES_COLLECTION}/${roomId}/coHosts`;
+const getCoHostInvitesCollectionPath = (roomId: string) => `${GAMES_COLLECTION}/${roomId}/coHostInvites`;
+
+const createInitialGameData = (ownerId: string): GameData => ({
+  status: 'LOBBY',
+  config: { 
+    targetsPerPlayer: 2,
+    maxPreferences: 10,
+    maxAvoids: 5,
+    pairingRule: 'allow',
+    includeThreeCycles: false,
+    minReceived: 1,
+    groupRules: [],
+    editLockAt: null,
+    prompts: DEFAULT_PROMPTS,
+    templateId: 'christmas',
+    screenCopy: DEFAULT_SCREEN_COPY,
+    contentFilter: { enabled: false, keywords: [] },
+  },
+  currentRevealId: null,
+  ownerId,
+  matchmakingRun: null,
+  writingDeadline: null,
+});
+
+// Submission (and draft) document IDs are derived so a writer has at most one per target
+const getSubmissionId = (writerId: string, targetId: string) => `${writerId}_${targetId}`;
+
+// Firestore rejects a batch with more than 500 writes
+const MAX_BATCH_WRITES = 500;
+
+type BatchWrite = (batch: WriteBatch) => void;
+
+/**
+ * Commit writes in order, in as many batches as Firestore's limit needs. Batches commit one
+ * after another, so callers put the writes a retry depends on (e.g. the assignments drafts
+ * are found by) last.
+ */
+async function commitInBatches(firestore: Firestore, writes: BatchWrite[]) {
+  for (let start = 0; start < writes.length; start += MAX_BATCH_WRITES) {
+    const batch = writeBatch(firestore);
+    writes.slice(start, start + MAX_BATCH_WRITES).forEach(write => write(batch));
+    await batch.commit();
+  }
+}
+
+const generateInviteToken = () => {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export type MatchmakingOutcome =
+  | { ok: true; assignments: Assignment[]; report: MatchmakingReport; seed: number }
+  | { ok: false; analysis: ConflictAnalysis };
+
+interface UseGameOptions {
+  // Create the room document if it does not exist yet (used by the host view)
+  createIfMissing?: boolean;
+}
+
+export function useGame(roomId: string, options: UseGameOptions = {}) {
+  const { createIfMissing = false } = options;
+  const gameDocPath = getGameDocPath(roomId);
+  const playersCollectionPath = getPlayersCollectionPath(roomId);
+  const privatePlayerDataCollectionPath = getPrivatePlayerDataCollectionPath(roomId);
+  const submissionsCollectionPath = getSubmissionsCollectionPath(roomId);
+  const submissionHistoryCollectionPath = getSubmissionHistoryCollectionPath(roomId);
+  const draftsCollectionPath = getDraftsCollectionPath(roomId);
+  const coHostsCollectionPath = getCoHostsCollectionPath(roomId);
+  const coHostInvitesCollectionPath = getCoHostInvitesCollectionPath(roomId);
 
-export function useGame() {
   const [gameData, setGameData] = useState<GameData | null>(null);
-  const [players, setPlayers] = useState<Player[]>([]);
+  const [publicPlayers, setPublicPlayers] = useState<Array<{ uid: string; data: PublicPlayerData }>>([]);
+  const [privatePlayerData, setPrivatePlayerData] = useState<Record<string, PrivatePlayerData>>({});
+  const [submissionDocs, setSubmissionDocs] = useState<SubmissionDoc[]>([]);
+  const [submissionHistory, setSubmissionHistory] = useState<SubmissionHistoryDoc[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [roomNotFound, setRoomNotFound] = useState(false);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [isCoHost, setIsCoHost] = useState(false);
+  const [coHostIds, setCoHostIds] = useState<string[]>([]);
+  // Server clock minus this device's clock, for countdowns that match the server's deadline
+  const [clockOffsetMs, setClockOffsetMs] = useState(0);
+
+  // A malformed code (e.g. /r/---) normalizes to an unusable document ID, so nothing is subscribed
+  const isValidRoom = isValidRoomCode(roomId);
+  const isOwner = !!currentUserId && gameData?.ownerId === currentUserId;
+  const isHost = isOwner || isCoHost;
+  const revealTargetId = gameData?.status === 'REVEAL' ? gameData.currentRevealId : null;
+
+  // Merge public, private and submission documents into the client-side player view.
+  // References to players who have since left are dropped.
+  const players = useMemo<Player[]>(() => {
+    const playerIds = new Set(publicPlayers.map(p => p.uid));
+    return publicPlayers.map(({ uid, data }) => {
+      const submissions: PlayerData['submissions'] = {};
+      submissionDocs
+        .filter(submission => submission.writerId === uid && playerIds.has(submission.targetId))
+        .forEach(({ targetId, answers, writerRevealed, editCount, editedAt, hidden, flagged, flaggedTerms }) => {
+          submissions[targetId] = { answers: answers || {}, writerRevealed, editCount, editedAt, hidden, flagged, flaggedTerms };
+        });
+
+      return {
+        uid,
+        data: {
+          name: data.name,
+          preferences: (data.preferences || []).filter(id => playerIds.has(id)),
+          preferenceStrengths: data.preferenceStrengths || {},
+          assignments: data.assignments || [],
+          writeQuota: data.writeQuota ?? null,
+          avoids: (privatePlayerData[uid]?.avoids || []).filter(id => playerIds.has(id)),
+          groups: privatePlayerData[uid]?.groups || [],
+          submissions,
+        },
+      };
+    });
+  }, [publicPlayers, privatePlayerData, submissionDocs]);
 
   // Wait for authentication before setting up listeners
   useEffect(() => {
@@ -57,11 +202,20 @@ export function useGame() {
 
   // Subscribe to game document (only after authentication)
   useEffect(() => {
-    if (!isFirebaseConfigured || !db || !isAuthenticated) {
+    if (!isValidRoom) {
+      setGameData(null);
+      setRoomNotFound(true);
+      setLoading(false);
+      return;
+    }
+    if (!isFirebaseConfigured || !db || !isAuthenticated || !currentUserId) {
       return;
     }
 
-    const gameDocRef = doc(db, GAME_DOC_PATH);
+    const gameDocRef = doc(db, getGameDocPath(roomId));
+    setLoading(true);
+    setGameData(null);
+    setRoomNotFound(false);
     
     const unsubscribe = onSnapshot(
       gameDocRef,
@@ -69,21 +223,16 @@ export function useGame() {
         if (snapshot.exists()) {
           const data = snapshot.data() as GameData;
           setGameData(data);
-        } else {
-          // Initialize game if it doesn't exist
-          const initialData: GameData = {
-            status: 'LOBBY',
-            config: { 
-              targetsPerPlayer: 2,
-              maxPreferences: 10,
-              maxAvoids: 5,
-            },
-            currentRevealId: null,
-          };
-          setDoc(gameDocRef, initialData).catch(err => {
+          setRoomNotFound(false);
+        } else if (createIfMissing) {
+          // Initialize game if it doesn't exist - the creator becomes its owner
+          setDoc(gameDocRef, createInitialGameData(currentUserId)).catch(err => {
             console.error('Error initializing game:', err);
             setError('Failed to initialize game');
           });
+        } else {
+          setGameData(null);
+          setRoomNotFound(true);
         }
         setLoading(false);
       },
@@ -95,27 +244,28 @@ export function useGame() {
     );
 
     return () => unsubscribe();
-  }, [isAuthenticated]);
+  }, [isAuthenticated, currentUserId, roomId, isValidRoom, createIfMissing]);
 
   // Subscribe to players collection (only after authentication)
   useEffect(() => {
-    if (!isFirebaseConfigured || !db || !isAuthenticated) {
+    if (!isFirebaseConfigured || !db || !isAuthenticated || !isValidRoom) {
       return;
     }
 
-    const playersQuery = query(collection(db, PLAYERS_COLLECTION));
+    setPublicPlayers([]);
+    const playersQuery = query(collection(db, getPlayersCollectionPath(roomId)));
     
     const unsubscribe = onSnapshot(
       playersQuery,
       (snapshot) => {
-        const playersList: Player[] = [];
+        const playersList: Array<{ uid: string; data: PublicPlayerData }> = [];
         snapshot.forEach((doc) => {
           playersList.push({
             uid: doc.id,
-            data: doc.data() as PlayerData,
+            data: doc.data() as PublicPlayerData,
           });
         });
-        setPlayers(playersList);
+        setPublicPlayers(playersList);
       },
       (err) => {
         console.error('Error listening to players:', err);
@@ -124,15 +274,210 @@ export function useGame() {
     );
 
     return () => unsubscribe();
-  }, [isAuthenticated]);
+  }, [isAuthenticated, roomId, isValidRoom]);
+
+  // Subscribe to the current user's co-host membership
+  useEffect(() => {
+    if (!isFirebaseConfigured || !db || !currentUserId || !isValidRoom) {
+      return;
+    }
+
+    const coHostDocRef = doc(db, getCoHostsCollectionPath(roomId), currentUserId);
+
+    const unsubscribe = onSnapshot(
+      coHostDocRef,
+      (snapshot) => setIsCoHost(snapshot.exists()),
+      // Treat a denied read as not being a co-host
+      () => setIsCoHost(false)
+    );
+
+    return () => unsubscribe();
+  }, [currentUserId, roomId, isValidRoom]);
+
+  // Subscribe to the co-host list (hosts only)
+  useEffect(() => {
+    if (!isFirebaseConfigured || !db || !isHost) {
+      setCoHostIds([]);
+      return;
+    }
+
+    const unsubscribe = onSnapshot(
+      query(collection(db, getCoHostsCollectionPath(roomId))),
+      (snapshot) => setCoHostIds(snapshot.docs.map(coHostDoc => coHostDoc.id)),
+      (err) => console.error('Error listening to co-hosts:', err)
+    );
+
+    return () => unsubscribe();
+  }, [isHost, roomId]);
+
+  // Subscribe to private player data: every player's for hosts, only their own otherwise
+  useEffect(() => {
+    if (!isFirebaseConfigured || !db || !isAuthenticated || !currentUserId || !isValidRoom) {
+      return;
+    }
+
+    const privateCollectionRef = collection(db, getPrivatePlayerDataCollectionPath(roomId));
+    const handleError = (err: Error) => console.error('Error listening to private player data:', err);
+
+    const unsubscribe = isHost
+      ? onSnapshot(
+          query(privateCollectionRef),
+          (snapshot) => {
+            const allPrivateData: Record<string, PrivatePlayerData> = {};
+            snapshot.forEach((privateDoc) => {
+              allPrivateData[privateDoc.id] = privateDoc.data() as PrivatePlayerData;
+            });
+            setPrivatePlayerData(allPrivateData);
+          },
+          handleError
+        )
+      : onSnapshot(
+          doc(privateCollectionRef, currentUserId),
+          (snapshot) => {
+            setPrivatePlayerData(
+              snapshot.exists() ? { [currentUserId]: snapshot.data() as PrivatePlayerData } : {}
+            );
+          },
+          handleError
+        );
+
+    return () => unsubscribe();
+  }, [isAuthenticated, currentUserId, isHost, roomId, isValidRoom]);
+
+  // Subscribe to the submissions the current user may read: all of them for hosts,
+  // otherwise their own plus the ones about the player currently being revealed (minus any a host hid)
+  useEffect(() => {
+    if (!isFirebaseConfigured || !db || !isAuthenticated || !currentUserId || !isValidRoom) {
+      return;
+    }
+
+    const submissionsRef = collection(db, getSubmissionsCollectionPath(roomId));
+    const submissionQueries = isHost
+      ? [query(submissionsRef)]
+      : [
+          query(submissionsRef, where('writerId', '==', currentUserId)),
+          ...(revealTargetId
+            ? [query(submissionsRef, where('targetId', '==', revealTargetId), where('hidden', '==', false))]
+            : []),
+        ];
+
+    const resultsByQuery: Array<Map<string, SubmissionDoc>> = submissionQueries.map(() => new Map());
+    const publishResults = () => {
+      const merged = new Map<string, SubmissionDoc>();
+      resultsByQuery.forEach(results => results.forEach((submission, id) => merged.set(id, submission)));
+      setSubmissionDocs(Array.from(merged.values()));
+    };
+
+    const unsubscribes = submissionQueries.map((submissionQuery, index) =>
+      onSnapshot(
+        submissionQuery,
+        (snapshot) => {
+          resultsByQuery[index] = new Map(
+            snapshot.docs.map(submissionDoc => [submissionDoc.id, submissionDoc.data() as SubmissionDoc])
+          );
+          publishResults();
+        },
+        (err) => console.error('Error listening to submissions:', err)
+      )
+    );
+
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [isAuthenticated, currentUserId, isHost, revealTargetId, roomId, isValidRoom]);
+
+  // Submissions written before moderation existed have no hidden field, so the reveal query
+  // and the rules would leave them out. Hosts read every submission, so they fill it in.
+  useEffect(() => {
+    if (!isFirebaseConfigured || !db || !isHost) {
+      return;
+    }
+    const unmarked = submissionDocs.filter(submission => submission.hidden === undefined);
+    if (unmarked.length === 0) {
+      return;
+    }
+
+    const submissionsRef = collection(db, getSubmissionsCollectionPath(roomId));
+    commitInBatches(db, unmarked.map(({ writerId, targetId }) => (batch: WriteBatch) => {
+      batch.update(doc(submissionsRef, getSubmissionId(writerId, targetId)), { hidden: false });
+    })).catch(err => console.error('Error marking older submissions as visible:', err));
+  }, [isHost, submissionDocs, roomId]);
+
+  // Subscribe to the edit and withdrawal history of submissions (hosts only), newest first
+  useEffect(() => {
+    if (!isFirebaseConfigured || !db || !isHost) {
+      setSubmissionHistory([]);
+      return;
+    }
+
+    const unsubscribe = onSnapshot(
+      query(collection(db, getSubmissionHistoryCollectionPath(roomId))),
+      (snapshot) => setSubmissionHistory(
+        snapshot.docs
+          .map(historyDoc => historyDoc.data() as SubmissionHistoryDoc)
+          .sort((a, b) => b.changedAt - a.changedAt)
+      ),
+      (err) => console.error('Error listening to submission history:', err)
+    );
+
+    return () => unsubscribe();
+  }, [isHost, roomId]);
+
+  // Measure the server clock once a writing deadline is set. Half the round trip is
+  // assumed to be the request, so the offset is accurate to within that.
+  const hasWritingDeadline = !!gameData?.writingDeadline;
+  useEffect(() => {
+    if (!isFirebaseConfigured || !functions || !isAuthenticated || !hasWritingDeadline) {
+      return;
+    }
+
+    let cancelled = false;
+    const sentAt = Date.now();
+    httpsCallable<void, { now: number }>(functions, 'getServerTime')()
+      .then(result => {
+        if (!cancelled) {
+          const receivedAt = Date.now();
+          setClockOffsetMs(result.data.now - (sentAt + receivedAt) / 2);
+        }
+      })
+      .catch(err => console.error('Error reading server time:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isAuthenticated, hasWritingDeadline]);
+
+  // Ask the server to move the game to REVEAL when an auto-advancing deadline passes.
+  // Every connected client does this, spread over a couple of seconds; the server
+  // advances the game once and ignores the rest.
+  const writingDeadline = gameData?.status === 'WRITING' ? gameData.writingDeadline : null;
+  useEffect(() => {
+    if (!isFirebaseConfigured || !functions || !isAuthenticated || writingDeadline?.onExpire !== 'reveal') {
+      return;
+    }
+
+    const callable = httpsCallable<{ roomId: string }, { advanced: boolean }>(functions, 'expireWritingDeadline');
+    const delayMs = writingDeadline.endsAt - (Date.now() + clockOffsetMs) + Math.random() * 2000;
+    const timer = setTimeout(() => {
+      callable({ roomId }).catch(err => console.error('Error expiring writing deadline:', err));
+    }, Math.max(0, delayMs));
+
+    return () => clearTimeout(timer);
+  }, [isAuthenticated, writingDeadline?.onExpire, writingDeadline?.endsAt, clockOffsetMs, roomId]);
+
+  // Guard for admin-only mutations (mirrored by isHost() in firestore.rules)
+  const requireHost = () => {
+    if (!isHost) {
+      throw new Error('Only the host can perform this action');
+    }
+  };
 
   // Update game status
   const updateGameStatus = async (status: GameData['status']) => {
     if (!isFirebaseConfigured || !db) {
       throw new Error('Firebase is not configured');
     }
+    requireHost();
     try {
-      const gameDocRef = doc(db, GAME_DOC_PATH);
+      const gameDocRef = doc(db, gameDocPath);
       await updateDoc(gameDocRef, { status });
     } catch (err) {
       console.error('Error updating game status:', err);
@@ -146,8 +491,9 @@ export function useGame() {
     if (!isFirebaseConfigured || !db) {
       throw new Error('Firebase is not configured');
     }
+    requireHost();
     try {
-      const gameDocRef = doc(db, GAME_DOC_PATH);
+      const gameDocRef = doc(db, gameDocPath);
       await updateDoc(gameDocRef, { 
         config: { ...gameData?.config, ...config } 
       });
@@ -164,20 +510,34 @@ export function useGame() {
       throw new Error('Firebase is not configured');
     }
     try {
-      const playerDocRef = doc(db, PLAYERS_COLLECTION, uid);
+      const playerDocRef = doc(db, playersCollectionPath, uid);
       const existingDoc = await getDoc(playerDocRef);
       
       if (existingDoc.exists()) {
-        await updateDoc(playerDocRef, playerData);
+        const updates: Partial<PublicPlayerData> = {};
+        if (playerData.name !== undefined) updates.name = playerData.name;
+        if (playerData.preferences !== undefined) updates.preferences = playerData.preferences;
+        if (playerData.preferenceStrengths !== undefined) updates.preferenceStrengths = playerData.preferenceStrengths;
+        await updateDoc(playerDocRef, updates);
+        if (playerData.avoids !== undefined) {
+          await setDoc(doc(db, privatePlayerDataCollectionPath, uid), { avoids: playerData.avoids }, { merge: true });
+        }
       } else {
-        const newPlayerData: PlayerData = {
+        const newPlayerData: PublicPlayerData = {
           name: playerData.name || '',
           preferences: playerData.preferences || [],
+          preferenceStrengths: playerData.preferenceStrengths || {},
+          assignments: [],
+          writeQuota: null,
+        };
+        const newPrivateData: PrivatePlayerData = {
           avoids: playerData.avoids || [],
-          assignments: playerData.assignments || [],
-          submissions: playerData.submissions || {},
+          groups: [],
         };
-        await setDoc(playerDocRef, newPlayerData);
+        const batch = writeBatch(db);
+        batch.set(playerDocRef, newPlayerData);
+        batch.set(doc(db, privatePlayerDataCollectionPath, uid), newPrivateData);
+        await batch.commit();
       }
     } catch (err) {
       console.error('Error upserting player:', err);
@@ -187,17 +547,26 @@ export function useGame() {
   };
 
   // Update player preferences/avoids
+  // Avoids live in the private document so other players cannot read them
+  // (merged, so the groups a host set are kept)
   const updatePlayerPreferences = async (
     uid: string, 
     preferences: string[], 
-    avoids: string[]
+    avoids: string[],
+    preferenceStrengths: PublicPlayerData['preferenceStrengths']
   ) => {
     if (!isFirebaseConfigured || !db) {
       throw new Error('Firebase is not configured');
     }
     try {
-      const playerDocRef = doc(db, PLAYERS_COLLECTION, uid);
-      await updateDoc(playerDocRef, { preferences, avoids });
+      const batch = writeBatch(db);
+      // Only keep strengths for current picks (enforced by the security rules)
+      const currentStrengths = Object.fromEntries(
+        Object.entries(preferenceStrengths).filter(([targetId]) => preferences.includes(targetId))
+      );
+      batch.update(doc(db, playersCollectionPath, uid), { preferences, preferenceStrengths: currentStrengths });
+      batch.set(doc(db, privatePlayerDataCollectionPath, uid), { avoids }, { merge: true });
+      await batch.commit();
     } catch (err) {
       console.error('Error updating player preferences:', err);
       setError('Failed to update preferences');
@@ -205,67 +574,150 @@ export function useGame() {
     }
   };
 
-  // Batch write assignments
-  const writeAssignments = async (assignments: Array<{ writerId: string; targetId: string }>) => {
-    if (!isFirebaseConfigured || !db) {
+  // Ask the server whether skipping targetId would break matching
+  // Other players' avoids are private, so only an anonymized verdict comes back
+  const checkAvoid = async (targetId: string): Promise<{ allowed: boolean; reason: string | null }> => {
+    if (!isFirebaseConfigured || !functions) {
       throw new Error('Firebase is not configured');
     }
     try {
-      const batch = writeBatch(db);
-      const assignmentMap = new Map<string, string[]>();
-
-      // Group assignments by writer
-      assignments.forEach(({ writerId, targetId }) => {
-        if (!assignmentMap.has(writerId)) {
-          assignmentMap.set(writerId, []);
-        }
-        assignmentMap.get(writerId)!.push(targetId);
-      });
+      const callable = httpsCallable<
+        { roomId: string; targetId: string },
+        { allowed: boolean; reason: string | null }
+      >(functions, 'checkAvoid');
+      const result = await callable({ roomId, targetId });
+      return result.data;
+    } catch (err) {
+      console.error('Error checking avoid:', err);
+      setError('Failed to check Skip this round choice');
+      throw err;
+    }
+  };
 
-      // Write assignments to each player
-      for (const [writerId, targetIds] of assignmentMap.entries()) {
-        const playerDocRef = doc(db, PLAYERS_COLLECTION, writerId);
-        batch.update(playerDocRef, { assignments: targetIds });
+  // Preview matchmaking on the server (admin only)
+  // Nothing is written until the host commits the proposal with writeAssignments.
+  // Pass a new seed to re-roll.
+  const previewMatchmaking = async (seed?: number): Promise<MatchmakingOutcome> => {
+    if (!isFirebaseConfigured || !functions) {
+      throw new Error('Firebase is not configured');
+    }
+    requireHost();
+    try {
+      const callable = httpsCallable<
+        { roomId: string; seed?: number },
+        { assignments: Assignment[]; report: MatchmakingReport; seed: number }
+      >(functions, 'previewRoomMatchmaking');
+      const result = await callable({ roomId, seed });
+      return { ok: true, ...result.data };
+    } catch (err) {
+      // No valid assignment exists - the function returns the conflict analysis as details
+      if (err instanceof FunctionsError && err.code === 'functions/failed-precondition' && err.details) {
+        return { ok: false, analysis: err.details as ConflictAnalysis };
       }
+      console.error('Error previewing matchmaking:', err);
+      setError('Failed to run matchmaking');
+      throw err;
+    }
+  };
 
-      await batch.commit();
+  // Start or change the writing countdown, or clear it with null (admin only)
+  // The server sets the end time from its own clock
+  const setWritingDeadline = async (minutes: number | null, onExpire: DeadlineAction): Promise<WritingDeadline | null> => {
+    if (!isFirebaseConfigured || !functions) {
+      throw new Error('Firebase is not configured');
+    }
+    requireHost();
+    try {
+      const callable = httpsCallable<
+        { roomId: string; minutes: number | null; onExpire: DeadlineAction },
+        { writingDeadline: WritingDeadline | null }
+      >(functions, 'setWritingDeadline');
+      const result = await callable({ roomId, minutes, onExpire });
+      return result.data.writingDeadline;
+    } catch (err) {
+      console.error('Error setting writing deadline:', err);
+      setError('Failed to set writing deadline');
+      throw err;
+    }
+  };
+
+  // Commit assignments (admin only)
+  // The server re-validates them, writes every player's assignments and moves the game
+  // to WRITING atomically, so clients never write other players' assignments themselves
+  // The seed of the previewed run is stored on the game so it can be reproduced
+  const writeAssignments = async (assignments: Assignment[], seed: number) => {
+    if (!isFirebaseConfigured || !functions) {
+      throw new Error('Firebase is not configured');
+    }
+    requireHost();
+    try {
+      const callable = httpsCallable<
+        { roomId: string; assignments: Assignment[]; seed: number },
+        { assignmentCount: number }
+      >(functions, 'commitRoomAssignments');
+      await callable({ roomId, assignments, seed });
     } catch (err) {
       console.error('Error writing assignments:', err);
       setError('Failed to write assignments');
+      // Surface the validation problems reported by the server
+      if (err instanceof FunctionsError && err.details) {
+        const { problems } = err.details as { problems?: string[] };
+        if (problems?.length) {
+          throw new Error(`${err.message}:\n${problems.join('\n')}`);
+        }
+      }
       throw err;
     }
   };
 
-  // Submit writing for a target
-  const submitWriting = async (
-    uid: string, 
-    targetId: string, 
-    impression: string, 
-    reality: string
-  ) => {
+  // Fit assignments to the current players during WRITING (admin only), e.g. to bring in
+  // late joiners. The server keeps every submitted assignment and changes as few of the
+  // others as possible, and returns what it changed. With excludePlayerId, that player is
+  // treated as already gone (used before kicking them).
+  const repairAssignments = async (excludePlayerId?: string): Promise<AssignmentChanges> => {
+    if (!isFirebaseConfigured || !functions) {
+      throw new Error('Firebase is not configured');
+    }
+    requireHost();
+    try {
+      const callable = httpsCallable<
+        { roomId: string; excludePlayerId?: string },
+        { changes: AssignmentChanges; report: MatchmakingReport }
+      >(functions, 'repairRoomAssignments');
+      const result = await callable({ roomId, excludePlayerId });
+      return result.data.changes;
+    } catch (err) {
+      console.error('Error repairing assignments:', err);
+      setError('Failed to repair assignments');
+      throw err;
+    }
+  };
+
+  // Submit writing for a target, with answers keyed by prompt ID
+  const submitWriting = async (uid: string, targetId: string, answers: Answers) => {
     if (!isFirebaseConfigured || !db) {
       throw new Error('Firebase is not configured');
     }
     try {
-      const playerDocRef = doc(db, PLAYERS_COLLECTION, uid);
-      const playerDoc = await getDoc(playerDocRef);
-      
-      if (!playerDoc.exists()) {
-        throw new Error('Player not found');
-      }
+      const submissionDocRef = doc(db, submissionsCollectionPath, getSubmissionId(uid, targetId));
 
-      const currentData = playerDoc.data() as PlayerData;
-      const existingSubmission = currentData.submissions[targetId];
-      const updatedSubmissions = {
-        ...currentData.submissions,
-        [targetId]: { 
-          impression, 
-          reality,
-          writerRevealed: existingSubmission?.writerRevealed || false, // Preserve reveal status
-        },
+      // Merge so an existing reveal status is preserved. The content filter only flags the
+      // submission for the hosts; it is still submitted.
+      const flaggedTerms = findFlaggedTerms(answers, gameData?.config.contentFilter);
+      const submission: Omit<SubmissionDoc, 'writerRevealed'> = {
+        writerId: uid,
+        targetId,
+        answers,
+        hidden: false,
+        flagged: flaggedTerms.length > 0,
+        flaggedTerms,
       };
 
-      await updateDoc(playerDocRef, { submissions: updatedSubmissions });
+      // The draft is no longer needed once the text is submitted
+      const batch = writeBatch(db);
+      batch.set(submissionDocRef, submission, { merge: true });
+      batch.delete(doc(db, draftsCollectionPath, getSubmissionId(uid, targetId)));
+      await batch.commit();
     } catch (err) {
       console.error('Error submitting writing:', err);
       setError('Failed to submit writing');
@@ -273,35 +725,170 @@ export function useGame() {
     }
   };
 
-  // Reveal writer name for a specific target
-  const revealWriterName = async (writerId: string, targetId: string) => {
+  // Mirrors the WRITING, deadline and edit lock checks for changing submissions in firestore.rules
+  const assertSubmissionsChangeable = () => {
+    if (gameData?.status !== 'WRITING') {
+      throw new Error('Submissions can only be changed before the reveal');
+    }
+    const deadline = gameData.writingDeadline;
+    if (deadline && Date.now() + clockOffsetMs >= deadline.endsAt) {
+      throw new Error('Writing has closed');
+    }
+    const editLockAt = gameData.config.editLockAt;
+    if (editLockAt && Date.now() + clockOffsetMs >= editLockAt) {
+      throw new Error('Submissions are locked and can no longer be changed');
+    }
+  };
+
+  // The text being replaced, kept for the hosts
+  const createHistoryEntry = (submission: SubmissionDoc, change: SubmissionChange): SubmissionHistoryDoc => ({
+    writerId: submission.writerId,
+    targetId: submission.targetId,
+    answers: submission.answers,
+    change,
+    changedAt: Date.now(),
+  });
+
+  // Replace the text of a submitted reflection, keeping the previous version in the history
+  const editSubmission = async (uid: string, targetId: string, answers: Answers) => {
     if (!isFirebaseConfigured || !db) {
       throw new Error('Firebase is not configured');
     }
     try {
-      const writerDocRef = doc(db, PLAYERS_COLLECTION, writerId);
-      const writerDoc = await getDoc(writerDocRef);
-      
-      if (!writerDoc.exists()) {
-        throw new Error('Writer not found');
+      assertSubmissionsChangeable();
+      const submissionDocRef = doc(db, submissionsCollectionPath, getSubmissionId(uid, targetId));
+      const submissionDoc = await getDoc(submissionDocRef);
+      if (!submissionDoc.exists()) {
+        throw new Error('Submission not found');
       }
+      const submission = submissionDoc.data() as SubmissionDoc;
+      // A clean edit leaves an existing flag for the hosts to clear
+      const flaggedTerms = findFlaggedTerms(answers, gameData?.config.contentFilter);
 
-      const currentData = writerDoc.data() as PlayerData;
-      const submission = currentData.submissions[targetId];
-      
-      if (!submission) {
+      const batch = writeBatch(db);
+      batch.set(doc(collection(db, submissionHistoryCollectionPath)), createHistoryEntry(submission, 'edited'));
+      batch.update(submissionDocRef, {
+        answers,
+        editCount: (submission.editCount || 0) + 1,
+        editedAt: Date.now(),
+        flaggedTerms,
+        ...(flaggedTerms.length > 0 ? { flagged: true } : {}),
+      });
+      batch.delete(doc(db, draftsCollectionPath, getSubmissionId(uid, targetId)));
+      await batch.commit();
+    } catch (err) {
+      console.error('Error editing submission:', err);
+      setError('Failed to edit submission');
+      throw err;
+    }
+  };
+
+  // Withdraw a submitted reflection. Its text goes back to being a draft the writer can
+  // resubmit, and the withdrawn version is kept in the history.
+  const withdrawSubmission = async (uid: string, targetId: string) => {
+    if (!isFirebaseConfigured || !db) {
+      throw new Error('Firebase is not configured');
+    }
+    try {
+      assertSubmissionsChangeable();
+      const submissionDocRef = doc(db, submissionsCollectionPath, getSubmissionId(uid, targetId));
+      const submissionDoc = await getDoc(submissionDocRef);
+      if (!submissionDoc.exists()) {
         throw new Error('Submission not found');
       }
+      const submission = submissionDoc.data() as SubmissionDoc;
+      if (submission.hidden) {
+        throw new Error('A host has hidden this reflection, so it can no longer be withdrawn');
+      }
 
-      const updatedSubmissions = {
-        ...currentData.submissions,
-        [targetId]: {
-          ...submission,
-          writerRevealed: true,
-        },
+      const batch = writeBatch(db);
+      batch.set(doc(collection(db, submissionHistoryCollectionPath)), createHistoryEntry(submission, 'withdrawn'));
+      batch.delete(submissionDocRef);
+      const draft: DraftDoc = {
+        writerId: uid,
+        targetId,
+        answers: submission.answers,
+        savedAt: Date.now(),
       };
+      batch.set(doc(db, draftsCollectionPath, getSubmissionId(uid, targetId)), draft);
+      await batch.commit();
+    } catch (err) {
+      console.error('Error withdrawing submission:', err);
+      setError('Failed to withdraw submission');
+      throw err;
+    }
+  };
+
+  // Hide a reflection from the reveal or flag it for review (hosts only). Only the writer
+  // and target IDs are needed, so the moderation queue never has to show who wrote it.
+  const moderateSubmission = async (
+    writerId: string,
+    targetId: string,
+    changes: Pick<Submission, 'hidden' | 'flagged'>
+  ) => {
+    if (!isFirebaseConfigured || !db) {
+      throw new Error('Firebase is not configured');
+    }
+    requireHost();
+    try {
+      await updateDoc(doc(db, submissionsCollectionPath, getSubmissionId(writerId, targetId)), changes);
+    } catch (err) {
+      console.error('Error moderating submission:', err);
+      setError('Failed to moderate submission');
+      throw err;
+    }
+  };
+
+  // Load the player's autosaved drafts, keyed by target ID
+  // Drafts are private to their writer and never part of the reveal
+  const loadDrafts = async (uid: string): Promise<Record<string, DraftDoc>> => {
+    if (!isFirebaseConfigured || !db) {
+      throw new Error('Firebase is not configured');
+    }
+    try {
+      const snapshot = await getDocs(query(collection(db, draftsCollectionPath), where('writerId', '==', uid)));
+      const drafts: Record<string, DraftDoc> = {};
+      snapshot.forEach(draftDoc => {
+        const draft = draftDoc.data() as DraftDoc;
+        drafts[draft.targetId] = draft;
+      });
+      return drafts;
+    } catch (err) {
+      console.error('Error loading drafts:', err);
+      setError('Failed to load drafts');
+      throw err;
+    }
+  };
+
+  // Autosave a draft while the player writes (called debounced by PlayerView)
+  const saveDraft = async (uid: string, targetId: string, answers: Answers, savedAt: number) => {
+    if (!isFirebaseConfigured || !db) {
+      throw new Error('Firebase is not configured');
+    }
+    try {
+      const draft: DraftDoc = { writerId: uid, targetId, answers, savedAt };
+      await setDoc(doc(db, draftsCollectionPath, getSubmissionId(uid, targetId)), draft);
+    } catch (err) {
+      console.error('Error saving draft:', err);
+      setError('Failed to save draft');
+      throw err;
+    }
+  };
+
+  // Reveal writer name for a specific target
+  const revealWriterName = async (writerId: string, targetId: string) => {
+    if (!isFirebaseConfigured || !db) {
+      throw new Error('Firebase is not configured');
+    }
+    try {
+      const submissionDocRef = doc(db, submissionsCollectionPath, getSubmissionId(writerId, targetId));
+      const submissionDoc = await getDoc(submissionDocRef);
+      
+      if (!submissionDoc.exists()) {
+        throw new Error('Submission not found');
+      }
 
-      await updateDoc(writerDocRef, { submissions: updatedSubmissions });
+      await updateDoc(submissionDocRef, { writerRevealed: true });
     } catch (err) {
       console.error('Error revealing writer name:', err);
       setError('Failed to reveal writer name');
@@ -314,29 +901,41 @@ export function useGame() {
     if (!isFirebaseConfigured || !db) {
       throw new Error('Firebase is not configured');
     }
+    requireHost();
     try {
-      // Delete all players
-      const playersQuery = query(collection(db, PLAYERS_COLLECTION));
-      const snapshot = await getDocs(playersQuery);
-      const batch = writeBatch(db);
-      
-      snapshot.forEach((doc) => {
-        batch.delete(doc.ref);
+      const writes: BatchWrite[] = [];
+      const draftsCollection = collection(db, draftsCollectionPath);
+
+      // Drafts are private, so they are deleted by ID from the current assignments
+      const playersSnapshot = await getDocs(query(collection(db, playersCollectionPath)));
+      playersSnapshot.forEach((playerDoc) => {
+        const playerData = playerDoc.data() as PublicPlayerData;
+        (playerData.assignments || []).forEach(targetId => {
+          writes.push(batch => batch.delete(doc(draftsCollection, getSubmissionId(playerDoc.id, targetId))));
+        });
       });
 
+      // Delete the submissions, their history, and all players with their private data.
+      // Players go last, since a retry after a partial reset finds drafts through them.
+      for (const collectionPath of [
+        submissionsCollectionPath,
+        submissionHistoryCollectionPath,
+        privatePlayerDataCollectionPath,
+        playersCollectionPath,
+      ]) {
+        const snapshot = await getDocs(query(collection(db, collectionPath)));
+        snapshot.forEach((doc) => {
+          writes.push(batch => batch.delete(doc.ref));
+        });
+      }
+
       // Reset game document
-      const gameDocRef = doc(db, GAME_DOC_PATH);
-      batch.set(gameDocRef, {
-        status: 'LOBBY',
-        config: { 
-          targetsPerPlayer: 2,
-          maxPreferences: 10,
-          maxAvoids: 5,
-        },
-        currentRevealId: null,
-      });
+      const gameDocRef = doc(db, gameDocPath);
+      writes.push(batch => batch.set(gameDocRef, createInitialGameData(gameData?.ownerId || currentUserId!)));
 
-      await batch.commit();
+      await commitInBatches(db, writes);
+      // Players' devices clear theirs when the room returns to the lobby
+      clearLocalDrafts(roomId);
     } catch (err) {
       console.error('Error resetting game:', err);
       setError('Failed to reset game');
@@ -349,8 +948,9 @@ export function useGame() {
     if (!isFirebaseConfigured || !db) {
       throw new Error('Firebase is not configured');
     }
+    requireHost();
     try {
-      const gameDocRef = doc(db, GAME_DOC_PATH);
+      const gameDocRef = doc(db, gameDocPath);
       await updateDoc(gameDocRef, { currentRevealId: revealId });
     } catch (err) {
       console.error('Error setting reveal:', err);
@@ -368,7 +968,7 @@ export function useGame() {
       throw new Error('Name cannot be empty');
     }
     try {
-      const playerDocRef = doc(db, PLAYERS_COLLECTION, uid);
+      const playerDocRef = doc(db, playersCollectionPath, uid);
       await updateDoc(playerDocRef, { name: newName.trim() });
     } catch (err) {
       console.error('Error updating player name:', err);
@@ -377,7 +977,44 @@ export function useGame() {
     }
   };
 
-  // Remove player and clean up all references
+  // Set how many reflections a player writes (admin only); null falls back to targetsPerPlayer
+  const updatePlayerWriteQuota = async (uid: string, writeQuota: number | null) => {
+    if (!isFirebaseConfigured || !db) {
+      throw new Error('Firebase is not configured');
+    }
+    requireHost();
+    if (writeQuota !== null && (!Number.isInteger(writeQuota) || writeQuota < 0)) {
+      throw new Error('Write quota must be a whole number of at least 0');
+    }
+    try {
+      await updateDoc(doc(db, playersCollectionPath, uid), { writeQuota });
+    } catch (err) {
+      console.error('Error updating write quota:', err);
+      setError('Failed to update write quota');
+      throw err;
+    }
+  };
+
+  // Set the groups a player belongs to (admin only), matched by the game's group rules
+  // Stored with the avoids, so only the player and the hosts can see them
+  const updatePlayerGroups = async (uid: string, groups: string[]) => {
+    if (!isFirebaseConfigured || !db) {
+      throw new Error('Firebase is not configured');
+    }
+    requireHost();
+    const uniqueGroups = [...new Set(groups.map(group => group.trim()).filter(Boolean))];
+    try {
+      await setDoc(doc(db, privatePlayerDataCollectionPath, uid), { groups: uniqueGroups }, { merge: true });
+    } catch (err) {
+      console.error('Error updating player groups:', err);
+      setError('Failed to update player groups');
+      throw err;
+    }
+  };
+
+  // Remove the current player from the game
+  // Other players' references to them are dropped when the player list is merged,
+  // since players may only write their own documents
   const removePlayer = async (playerIdToRemove: string) => {
     if (!isFirebaseConfigured || !db) {
       throw new Error('Firebase is not configured');
@@ -389,60 +1026,9 @@ export function useGame() {
     }
 
     try {
-      if (!db) {
-        throw new Error('Database not available');
-      }
-      
       const batch = writeBatch(db);
-      
-      // Get all players to clean up references
-      const playersQuery = query(collection(db, PLAYERS_COLLECTION));
-      const snapshot = await getDocs(playersQuery);
-      
-      snapshot.forEach((playerDoc) => {
-        const playerData = playerDoc.data() as PlayerData;
-        const updates: Partial<PlayerData> = {};
-        let needsUpdate = false;
-
-        // Remove from preferences
-        if (playerData.preferences.includes(playerIdToRemove)) {
-          updates.preferences = playerData.preferences.filter(id => id !== playerIdToRemove);
-          needsUpdate = true;
-        }
-
-        // Remove from avoids
-        if (playerData.avoids.includes(playerIdToRemove)) {
-          updates.avoids = playerData.avoids.filter(id => id !== playerIdToRemove);
-          needsUpdate = true;
-        }
-
-        // Remove from assignments
-        if (playerData.assignments.includes(playerIdToRemove)) {
-          updates.assignments = playerData.assignments.filter(id => id !== playerIdToRemove);
-          needsUpdate = true;
-        }
-
-        // Remove from submissions (if this player wrote about the removed player)
-        if (playerData.submissions[playerIdToRemove]) {
-          const updatedSubmissions = { ...playerData.submissions };
-          delete updatedSubmissions[playerIdToRemove];
-          updates.submissions = updatedSubmissions;
-          needsUpdate = true;
-        }
-
-        // Update the player document if needed
-        if (needsUpdate && db) {
-          const playerDocRef = doc(db, PLAYERS_COLLECTION, playerDoc.id);
-          batch.update(playerDocRef, updates);
-        }
-      });
-
-      // Delete the player's own document
-      if (db) {
-        const playerDocRef = doc(db, PLAYERS_COLLECTION, playerIdToRemove);
-        batch.delete(playerDocRef);
-      }
-
+      batch.delete(doc(db, playersCollectionPath, playerIdToRemove));
+      batch.delete(doc(db, privatePlayerDataCollectionPath, playerIdToRemove));
       await batch.commit();
     } catch (err) {
       console.error('Error removing player:', err);
@@ -452,72 +1038,107 @@ export function useGame() {
   };
 
   // Kick player (admin only - can be done at any time)
-  const kickPlayer = async (playerIdToKick: string) => {
+  // During WRITING the remaining assignments are then re-balanced on the server, since the
+  // kicked player's writers are left short of targets; returns what the re-balance changed
+  const kickPlayer = async (playerIdToKick: string): Promise<AssignmentChanges | null> => {
     if (!isFirebaseConfigured || !db) {
       throw new Error('Firebase is not configured');
     }
+    requireHost();
 
-    try {
-      if (!db) {
-        throw new Error('Database not available');
+    // During WRITING the other players are re-balanced first, so a failed repair leaves the
+    // room untouched rather than holding assignments to a player who no longer exists
+    let changes: AssignmentChanges | null = null;
+    if (gameData?.status === 'WRITING') {
+      try {
+        changes = await repairAssignments(playerIdToKick);
+      } catch (err) {
+        throw new Error(`Nobody was kicked: the assignments could not be re-balanced without this player. ${err instanceof Error ? err.message : err}`);
       }
-      
-      const batch = writeBatch(db);
+    }
+
+    try {
+      const writes: BatchWrite[] = [];
+      // Player updates are committed after the drafts they point to are gone (see below)
+      const playerUpdates: BatchWrite[] = [];
+      const draftsCollection = collection(db, draftsCollectionPath);
       
       // Get all players to clean up references
-      const playersQuery = query(collection(db, PLAYERS_COLLECTION));
-      const snapshot = await getDocs(playersQuery);
+      const [playersSnapshot, privateSnapshot, submissionsSnapshot, historySnapshot] = await Promise.all([
+        getDocs(query(collection(db, playersCollectionPath))),
+        getDocs(query(collection(db, privatePlayerDataCollectionPath))),
+        getDocs(query(collection(db, submissionsCollectionPath))),
+        getDocs(query(collection(db, submissionHistoryCollectionPath))),
+      ]);
       
-      snapshot.forEach((playerDoc) => {
-        const playerData = playerDoc.data() as PlayerData;
-        const updates: Partial<PlayerData> = {};
+      playersSnapshot.forEach((playerDoc) => {
+        const playerData = playerDoc.data() as PublicPlayerData;
+        const updates: Partial<PublicPlayerData> = {};
         let needsUpdate = false;
 
         // Remove from preferences
         if (playerData.preferences.includes(playerIdToKick)) {
           updates.preferences = playerData.preferences.filter(id => id !== playerIdToKick);
+          updates.preferenceStrengths = Object.fromEntries(
+            Object.entries(playerData.preferenceStrengths || {}).filter(([id]) => id !== playerIdToKick)
+          );
           needsUpdate = true;
         }
 
-        // Remove from avoids
-        if (playerData.avoids.includes(playerIdToKick)) {
-          updates.avoids = playerData.avoids.filter(id => id !== playerIdToKick);
-          needsUpdate = true;
-        }
-
-        // Remove from assignments
+        // Remove from assignments (and drop any draft about the kicked player)
         if (playerData.assignments.includes(playerIdToKick)) {
           updates.assignments = playerData.assignments.filter(id => id !== playerIdToKick);
+          writes.push(batch => batch.delete(doc(draftsCollection, getSubmissionId(playerDoc.id, playerIdToKick))));
           needsUpdate = true;
         }
-
-        // Remove from submissions (if this player wrote about the kicked player)
-        if (playerData.submissions[playerIdToKick]) {
-          const updatedSubmissions = { ...playerData.submissions };
-          delete updatedSubmissions[playerIdToKick];
-          updates.submissions = updatedSubmissions;
-          needsUpdate = true;
+        // Drafts are private, so they are deleted by ID rather than queried
+        if (playerDoc.id === playerIdToKick) {
+          playerData.assignments.forEach(targetId => {
+            writes.push(batch => batch.delete(doc(draftsCollection, getSubmissionId(playerIdToKick, targetId))));
+          });
         }
 
         // Update the player document if needed
-        if (needsUpdate && db) {
-          const playerDocRef = doc(db, PLAYERS_COLLECTION, playerDoc.id);
-          batch.update(playerDocRef, updates);
+        if (needsUpdate) {
+          playerUpdates.push(batch => batch.update(playerDoc.ref, updates));
         }
       });
 
-      // Delete the player's own document
-      if (db) {
-        const playerDocRef = doc(db, PLAYERS_COLLECTION, playerIdToKick);
-        batch.delete(playerDocRef);
-      }
+      // Remove from avoids
+      privateSnapshot.forEach((privateDoc) => {
+        const privateData = privateDoc.data() as PrivatePlayerData;
+        if (privateData.avoids.includes(playerIdToKick)) {
+          writes.push(batch => batch.update(privateDoc.ref, { avoids: privateData.avoids.filter(id => id !== playerIdToKick) }));
+        }
+      });
 
-      await batch.commit();
+      // Remove submissions (and their history) written by or about the kicked player
+      [...submissionsSnapshot.docs, ...historySnapshot.docs].forEach((submissionDoc) => {
+        const submission = submissionDoc.data() as SubmissionDoc | SubmissionHistoryDoc;
+        if (submission.writerId === playerIdToKick || submission.targetId === playerIdToKick) {
+          writes.push(batch => batch.delete(submissionDoc.ref));
+        }
+      });
+
+      // Delete the player's own documents last, so a kick that fails part way can be retried
+      const privateDocRef = doc(db, privatePlayerDataCollectionPath, playerIdToKick);
+      const playerDocRef = doc(db, playersCollectionPath, playerIdToKick);
+      await commitInBatches(db, [
+        ...writes,
+        ...playerUpdates,
+        batch => batch.delete(privateDocRef),
+        batch => batch.delete(playerDocRef),
+      ]);
     } catch (err) {
       console.error('Error kicking player:', err);
       setError('Failed to kick player');
+      if (changes) {
+        throw new Error('The assignments were re-balanced, but the player could not be removed. Try kicking them again.');
+      }
       throw err;
     }
+
+    return changes;
   };
 
   // Reset assignments (admin only - can be done at any time)
@@ -526,30 +1147,38 @@ export function useGame() {
     if (!isFirebaseConfigured || !db) {
       throw new Error('Firebase is not configured');
     }
+    requireHost();
 
     try {
-      if (!db) {
-        throw new Error('Database not available');
-      }
-      
-      const batch = writeBatch(db);
+      const writes: BatchWrite[] = [];
+      const draftsCollection = collection(db, draftsCollectionPath);
       
-      // Get all players
-      const playersQuery = query(collection(db, PLAYERS_COLLECTION));
-      const snapshot = await getDocs(playersQuery);
+      const [playersSnapshot, submissionsSnapshot, historySnapshot] = await Promise.all([
+        getDocs(query(collection(db, playersCollectionPath))),
+        getDocs(query(collection(db, submissionsCollectionPath))),
+        getDocs(query(collection(db, submissionHistoryCollectionPath))),
+      ]);
       
-      // Clear assignments and all submitted writings (submissions) for all players
-      snapshot.forEach((playerDoc) => {
-        if (db) {
-          const playerDocRef = doc(db, PLAYERS_COLLECTION, playerDoc.id);
-          batch.update(playerDocRef, {
-            assignments: [], // Clear all writing assignments
-            submissions: {}, // Clear all submitted writings (impression and reality texts)
-          });
-        }
+      // Delete all drafts (by ID, since drafts are private), submitted writings and their history
+      playersSnapshot.forEach((playerDoc) => {
+        (playerDoc.data() as PublicPlayerData).assignments.forEach(targetId => {
+          writes.push(batch => batch.delete(doc(draftsCollection, getSubmissionId(playerDoc.id, targetId))));
+        });
+      });
+      [...submissionsSnapshot.docs, ...historySnapshot.docs].forEach((submissionDoc) => {
+        writes.push(batch => batch.delete(submissionDoc.ref));
       });
 
-      await batch.commit();
+      // Then clear all writing assignments, which a retry needs to find the drafts
+      playersSnapshot.forEach((playerDoc) => {
+        writes.push(batch => batch.update(playerDoc.ref, { assignments: [] }));
+      });
+
+      // The committed run no longer describes any assignments
+      const gameDocRef = doc(db, gameDocPath);
+      writes.push(batch => batch.update(gameDocRef, { matchmakingRun: null }));
+
+      await commitInBatches(db, writes);
     } catch (err) {
       console.error('Error resetting assignments:', err);
       setError('Failed to reset assignments');
@@ -562,27 +1191,34 @@ export function useGame() {
     if (!isFirebaseConfigured || !db) {
       throw new Error('Firebase is not configured');
     }
+    requireHost();
 
     try {
-      const batch = writeBatch(db);
+      const writes: BatchWrite[] = [];
       const timestamp = Date.now();
       
       for (let i = 0; i < count; i++) {
         const playerId = `dummy_${timestamp}_${i}`;
-        const playerDocRef = doc(db, PLAYERS_COLLECTION, playerId);
         
-        const dummyPlayerData: PlayerData = {
+        const dummyPlayerData: PublicPlayerData = {
           name: `Test Player ${i + 1}`,
           preferences: [],
-          avoids: [],
+          preferenceStrengths: {},
           assignments: [],
-          submissions: {},
+          writeQuota: null,
+        };
+        const dummyPrivateData: PrivatePlayerData = {
+          avoids: [],
+          groups: [],
         };
         
-        batch.set(playerDocRef, dummyPlayerData);
+        const playerDocRef = doc(db, playersCollectionPath, playerId);
+        const privateDocRef = doc(db, privatePlayerDataCollectionPath, playerId);
+        writes.push(batch => batch.set(playerDocRef, dummyPlayerData));
+        writes.push(batch => batch.set(privateDocRef, dummyPrivateData));
       }
 
-      await batch.commit();
+      await commitInBatches(db, writes);
     } catch (err) {
       console.error('Error generating dummy players:', err);
       setError('Failed to generate dummy players');
@@ -590,26 +1226,112 @@ export function useGame() {
     }
   };
 
+  // Create a co-host invite link token (owner only)
+  const createCoHostInvite = async () => {
+    if (!isFirebaseConfigured || !db || !currentUserId) {
+      throw new Error('Firebase is not configured');
+    }
+    if (!isOwner) {
+      throw new Error('Only the room owner can invite co-hosts');
+    }
+    try {
+      const token = generateInviteToken();
+      const invite: CoHostInvite = { createdBy: currentUserId, createdAt: Date.now() };
+      await setDoc(doc(db, coHostInvitesCollectionPath, token), invite);
+      return token;
+    } catch (err) {
+      console.error('Error creating co-host invite:', err);
+      setError('Failed to create co-host invite');
+      throw err;
+    }
+  };
+
+  // Redeem a co-host invite token for the current user
+  const acceptCoHostInvite = async (token: string) => {
+    if (!isFirebaseConfigured || !db || !currentUserId) {
+      throw new Error('Firebase is not configured');
+    }
+    try {
+      const inviteDoc = await getDoc(doc(db, coHostInvitesCollectionPath, token));
+      if (!inviteDoc.exists()) {
+        throw new Error('This co-host invite is invalid or has been revoked');
+      }
+      const coHost: CoHostData = { inviteToken: token, joinedAt: Date.now() };
+      await setDoc(doc(db, coHostsCollectionPath, currentUserId), coHost);
+    } catch (err) {
+      console.error('Error accepting co-host invite:', err);
+      setError('Failed to accept co-host invite');
+      throw err;
+    }
+  };
+
+  // Remove a co-host (owner only)
+  const removeCoHost = async (coHostId: string) => {
+    if (!isFirebaseConfigured || !db) {
+      throw new Error('Firebase is not configured');
+    }
+    if (!isOwner) {
+      throw new Error('Only the room owner can remove co-hosts');
+    }
+    try {
+      const coHostDocRef = doc(db, coHostsCollectionPath, coHostId);
+      const coHostDoc = await getDoc(coHostDocRef);
+      const batch = writeBatch(db);
+      batch.delete(coHostDocRef);
+      // Revoke the invite they redeemed so it cannot be used to rejoin
+      if (coHostDoc.exists()) {
+        const { inviteToken } = coHostDoc.data() as CoHostData;
+        batch.delete(doc(db, coHostInvitesCollectionPath, inviteToken));
+      }
+      await batch.commit();
+    } catch (err) {
+      console.error('Error removing co-host:', err);
+      setError('Failed to remove co-host');
+      throw err;
+    }
+  };
+
   return {
+    roomId,
     gameData,
     players,
     loading,
     error,
+    roomNotFound,
     currentUserId,
+    isOwner,
+    isHost,
+    coHostIds,
     updateGameStatus,
     updateGameConfig,
     upsertPlayer,
     updatePlayerPreferences,
+    checkAvoid,
+    previewMatchmaking,
     writeAssignments,
+    repairAssignments,
+    setWritingDeadline,
+    clockOffsetMs,
     submitWriting,
+    editSubmission,
+    withdrawSubmission,
+    submissionHistory,
+    loadDrafts,
+    saveDraft,
     revealWriterName,
+    moderateSubmission,
     resetGame,
     setCurrentReveal,
     updatePlayerName,
+    updatePlayerWriteQuota,
+    updatePlayerGroups,
     removePlayer,
     kickPlayer,
     resetAssignments,
     generateDummyPlayers,
+    createCoHostInvite,
+    acceptCoHostInvite,
+    removeCoHost,
   };
 }
 
@@ -1,287 +1,1129 @@
-import { Player, Assignment } from './types';
+import { Player, Assignment, PairingRule, PreferenceStrength, GroupRule } from './types';
+import {
+  createFlowNetwork,
+  addFlowEdge,
+  getEdgeFlow,
+  solveMinCostMaxFlow,
+  findResidualReachableNodes,
+  FlowEdge,
+} from './utils/minCostFlow';
+import { createSeededRandom, seededShuffle, generateSeed } from './utils/random';
+
+export interface AssignmentConstraints {
+  pairingRule?: PairingRule; // Defaults to 'allow'
+  includeThreeCycles?: boolean; // Apply the pairing rule to A -> B -> C -> A as well
+  minReceived?: number; // Fewest reflections any player receives; defaults to 1
+  groupRules?: GroupRule[]; // Host rules between player groups, enforced like avoids
+}
+
+export interface MatchmakingOptions extends AssignmentConstraints {
+  seed?: number; // Breaks ties between equally good assignments; random when omitted
+  quiet?: boolean; // Skip console logging, e.g. when simulating many games
+}
+
+export interface RepairOptions extends AssignmentConstraints {
+  quiet?: boolean; // Skip console logging, e.g. inside a Cloud Function
+}
+
+export const DEFAULT_MIN_RECEIVED = 1;
+
+/**
+ * How many reflections a player writes: their own quota, or the game's targets per player
+ */
+export function getWriteQuota(player: Player, defaultQuota: number): number {
+  return player.data.writeQuota ?? defaultQuota;
+}
+
+/**
+ * Find the group rule, if any, that stops writer from writing about target
+ */
+export function findBlockingGroupRule(writer: Player, target: Player, groupRules: GroupRule[] = []): GroupRule | null {
+  return groupRules.find(rule => rule.type === 'within'
+    ? writer.data.groups.includes(rule.group) && target.data.groups.includes(rule.group)
+    : writer.data.groups.includes(rule.fromGroup) && target.data.groups.includes(rule.toGroup)
+  ) ?? null;
+}
+
+export function describeGroupRule(rule: GroupRule): string {
+  return rule.type === 'within'
+    ? `nobody in "${rule.group}" writes about each other`
+    : `nobody in "${rule.fromGroup}" writes about "${rule.toGroup}"`;
+}
+
+// A pair is off limits when the writer skips the target or a group rule forbids it
+const isForbiddenPair = (writer: Player, target: Player, groupRules: GroupRule[] = []) =>
+  writer.data.avoids.includes(target.uid) || findBlockingGroupRule(writer, target, groupRules) !== null;
+
+/**
+ * How many reflections each player writes and receives. Writers fill their quota
+ * exactly; targets receive between minReceived and maxReceived, where maxReceived
+ * spreads the total writing as evenly as possible. With equal quotas of N, everyone
+ * receives exactly N.
+ */
+export interface AssignmentBounds {
+  writeQuotas: Map<string, number>;
+  totalWrites: number;
+  minReceived: number;
+  maxReceived: number;
+}
+
+export function getAssignmentBounds(
+  players: Player[],
+  defaultQuota: number,
+  minReceived: number = DEFAULT_MIN_RECEIVED
+): AssignmentBounds {
+  const writeQuotas = new Map(players.map(p => [p.uid, getWriteQuota(p, defaultQuota)]));
+  const totalWrites = [...writeQuotas.values()].reduce((total, quota) => total + quota, 0);
+  const fairShare = players.length > 0 ? Math.ceil(totalWrites / players.length) : 0;
+  return { writeQuotas, totalWrites, minReceived, maxReceived: Math.max(minReceived, fairShare) };
+}
+
+/**
+ * A group of players that breaks Hall's condition for the assignment: the group needs
+ * more assignments than the rest of the game can give it
+ */
+export interface HallViolation {
+  side: 'writers' | 'targets'; // Writers who cannot place their assignments, or targets who cannot get enough writers
+  playerIds: string[];
+  playerNames: string[];
+  required: number; // Assignments the group needs
+  available: number; // Most assignments the group can get with the current avoids
+  description: string;
+}
 
 export interface ConflictAnalysis {
   hasConflict: boolean;
+  violations: HallViolation[];
   suggestions: Array<{
     playerName: string;
-    action: 'remove_avoid' | 'add_preference';
+    action: 'remove_avoid';
     targetPlayerName: string;
     reason: string;
   }>;
   summary: string;
 }
 
+const MAX_LISTED_NAMES = 6;
+
+const formatNames = (names: string[]) => {
+  const listed = names.length > MAX_LISTED_NAMES
+    ? [...names.slice(0, MAX_LISTED_NAMES - 1), `${names.length - MAX_LISTED_NAMES + 1} others`]
+    : names;
+  return listed.length > 1 ? `${listed.slice(0, -1).join(', ')} and ${listed[listed.length - 1]}` : listed[0];
+};
+
 /**
- * Analyze matchmaking conflicts and suggest solutions
+ * Find the group behind an infeasible assignment from a minimum cut. Two relaxations are
+ * checked, since a full assignment exists exactly when both do:
+ * - every writer fills their quota while no target exceeds maxReceived
+ * - every target can get minReceived writers
+ * With W the writers and T the targets still reachable from the source in the residual
+ * network, the cut says the writers outside W plus the allowed pairs from W to targets
+ * outside T cannot cover what the targets outside T need. Each cut is reported from the
+ * side that names fewer players, so its deficit is exactly what cannot be filled.
  */
-export function analyzeMatchmakingConflict(players: Player[], N: number): ConflictAnalysis {
-  const suggestions: ConflictAnalysis['suggestions'] = [];
-  
-  // First, check if any player is avoided by everyone (critical issue)
-  for (const targetPlayer of players) {
-    const playersWhoCanWriteAboutTarget = players.filter(
-      p => p.uid !== targetPlayer.uid && !p.data.avoids.includes(targetPlayer.uid)
+function findHallViolation(players: Player[], bounds: AssignmentBounds, groupRules: GroupRule[]): HallViolation | null {
+  const isAllowed = (writer: Player, target: Player) => (isForbiddenPair(writer, target, groupRules) ? null : 0);
+  const quotaOf = (player: Player) => bounds.writeQuotas.get(player.uid) || 0;
+  const sumQuotas = (group: Player[]) => group.reduce((total, p) => total + quotaOf(p), 0);
+  const plural = (names: string[], many: string, one: string) => (names.length > 1 ? many : one);
+
+  const findCut = (maxReceived: number, requiredFlow: number) => {
+    const { network, source, sink, writerNode, targetNode } = buildAssignmentNetwork(
+      players,
+      players,
+      { ...bounds, minReceived: 0, maxReceived },
+      isAllowed
     );
-    
-    const shortfall = N - playersWhoCanWriteAboutTarget.length;
-    
-    if (shortfall > 0) {
-      // This player cannot receive enough assignments because too many people avoid them
-      // Find players who are avoiding this target
-      const playersAvoidingTarget = players.filter(
-        p => p.uid !== targetPlayer.uid && p.data.avoids.includes(targetPlayer.uid)
-      );
-      
-      // Suggest removing avoids, prioritizing players with fewer avoids themselves
-      // (to avoid creating new conflicts)
-      const sortedAvoiders = playersAvoidingTarget.sort((a, b) => {
-        const aAvoids = a.data.avoids.length;
-        const bAvoids = b.data.avoids.length;
-        return aAvoids - bAvoids; // Prefer players with fewer avoids
-      });
-      
-      // Suggest removing the minimum number of avoids needed
-      for (let i = 0; i < Math.min(shortfall, sortedAvoiders.length); i++) {
-        const writerPlayer = sortedAvoiders[i];
-        suggestions.push({
-          playerName: writerPlayer.data.name,
-          action: 'remove_avoid',
-          targetPlayerName: targetPlayer.data.name,
-          reason: `${targetPlayer.data.name} is avoided by ${playersAvoidingTarget.length} player(s) and can only receive ${playersWhoCanWriteAboutTarget.length} assignment(s) but needs ${N}. ${writerPlayer.data.name} should remove their avoid for ${targetPlayer.data.name}.`,
-        });
-      }
+    const { flow } = solveMinCostMaxFlow(network, source, sink);
+    if (flow >= requiredFlow) {
+      return null;
+    }
+    const reachable = findResidualReachableNodes(network, source);
+    const groupWriters = players.filter((_, index) => reachable[writerNode(index)]);
+    const otherWriters = players.filter((_, index) => !reachable[writerNode(index)]);
+    const otherTargets = players.filter((_, index) => !reachable[targetNode(index)]);
+    const crossingPairs = groupWriters.reduce(
+      (count, writer) => count + otherTargets.filter(
+        target => target.uid !== writer.uid && !isForbiddenPair(writer, target, groupRules)
+      ).length,
+      0
+    );
+    return { groupWriters, otherWriters, otherTargets, crossingPairs };
+  };
+
+  const targetViolation = (targets: Player[], required: number, available: number, description: string): HallViolation => ({
+    side: 'targets',
+    playerIds: targets.map(p => p.uid),
+    playerNames: targets.map(p => p.data.name),
+    required,
+    available,
+    description,
+  });
+
+  // Every writer fills their quota without any target going over maxReceived
+  const placementCut = findCut(bounds.maxReceived, bounds.totalWrites);
+  if (placementCut) {
+    const { groupWriters, otherWriters, otherTargets, crossingPairs } = placementCut;
+    const reachableTargetCount = players.length - otherTargets.length;
+
+    if (groupWriters.length <= otherTargets.length) {
+      const names = groupWriters.map(p => p.data.name);
+      const required = sumQuotas(groupWriters);
+      const available = bounds.maxReceived * reachableTargetCount + crossingPairs;
+      const otherTargetIds = new Set(otherTargets.map(p => p.uid));
+      const canOnlyWriteAbout = players.filter(p => !otherTargetIds.has(p.uid)).map(p => p.data.name);
+      return {
+        side: 'writers',
+        playerIds: groupWriters.map(p => p.uid),
+        playerNames: names,
+        required,
+        available,
+        description: crossingPairs === 0 && canOnlyWriteAbout.length > 0
+          ? `${formatNames(names)} can only write about ${formatNames(canOnlyWriteAbout)}, who can take ${available} of the ${required} assignments they need`
+          : `${formatNames(names)} ${plural(names, 'need', 'needs')} ${required} assignments, but the players they don't skip can only take ${available}`,
+      };
     }
+
+    // Everyone else can take at most maxReceived each, so these targets must take the rest
+    const names = otherTargets.map(p => p.data.name);
+    const required = bounds.totalWrites - bounds.maxReceived * reachableTargetCount;
+    const available = sumQuotas(otherWriters) + crossingPairs;
+    return targetViolation(
+      otherTargets,
+      required,
+      available,
+      `${formatNames(names)} must receive ${required} reflections${names.length > 1 ? ' between them' : ''}, but the players who don't skip them can only give ${available}`
+    );
   }
-  
-  // Check each player's valid candidates (as a writer)
-  for (const player of players) {
-    const validCandidates = players.filter(
-      p => p.uid !== player.uid && !player.data.avoids.includes(p.uid)
+
+  // Every target gets at least minReceived writers
+  const minimumCut = bounds.minReceived > 0 ? findCut(bounds.minReceived, bounds.minReceived * players.length) : null;
+  if (minimumCut) {
+    const { otherWriters, otherTargets, crossingPairs } = minimumCut;
+    const names = otherTargets.map(p => p.data.name);
+    const required = bounds.minReceived * otherTargets.length;
+    const available = sumQuotas(otherWriters) + crossingPairs;
+    return targetViolation(
+      otherTargets,
+      required,
+      available,
+      `${formatNames(names)} ${plural(names, 'must each', 'must')} receive at least ${bounds.minReceived} reflection(s), but the players who don't skip them can only give ${available}${names.length > 1 ? ' between them' : ''}`
     );
-    
-    const shortfall = N - validCandidates.length;
-    
-    if (shortfall > 0) {
-      // Player doesn't have enough valid candidates
-      // Find players they're avoiding that could help
-      const avoidedPlayers = players.filter(
-        p => p.uid !== player.uid && player.data.avoids.includes(p.uid)
-      );
-      
-      // Suggest removing avoids, prioritizing players with fewer avoids themselves
-      // (to avoid creating new conflicts)
-      const sortedAvoids = avoidedPlayers.sort((a, b) => {
-        const aAvoids = a.data.avoids.length;
-        const bAvoids = b.data.avoids.length;
-        return aAvoids - bAvoids; // Prefer players with fewer avoids
-      });
-      
-      // Suggest removing the minimum number of avoids needed
-      for (let i = 0; i < Math.min(shortfall, sortedAvoids.length); i++) {
-        const targetPlayer = sortedAvoids[i];
-        suggestions.push({
-          playerName: player.data.name,
-          action: 'remove_avoid',
-          targetPlayerName: targetPlayer.data.name,
-          reason: `${player.data.name} has only ${validCandidates.length} valid candidates but needs ${N}. Removing avoid for ${targetPlayer.data.name} would help.`,
-        });
-      }
+  }
+
+  return null;
+}
+
+/**
+ * Find the fewest avoids to remove so that a valid assignment exists: solve the
+ * assignment again with avoided pairs allowed at cost 1 (and all others at cost 0).
+ * The minimum-cost full flow uses as few avoided pairs as possible. Group rules cannot
+ * be relaxed this way, so returns null when they alone leave no valid assignment.
+ */
+function findMinimalAvoidRemovals(players: Player[], bounds: AssignmentBounds, groupRules: GroupRule[]): Assignment[] | null {
+  const { network, source, sink, candidateEdges, minimumEdges } = buildAssignmentNetwork(
+    players,
+    players,
+    bounds,
+    (writer, target) => {
+      if (findBlockingGroupRule(writer, target, groupRules)) return null;
+      return writer.data.avoids.includes(target.uid) ? 1 : 0;
     }
+  );
+  const { flow } = solveMinCostMaxFlow(network, source, sink);
+  if (flow < bounds.totalWrites || minimumEdges.some(edge => getEdgeFlow(edge) < bounds.minReceived)) {
+    return null;
   }
-  
-  // Also check for players who might benefit from adding preferences
-  // (though this is less critical than removing avoids)
-  for (const player of players) {
-    const validCandidates = players.filter(
-      p => p.uid !== player.uid && !player.data.avoids.includes(p.uid)
+  const playerMap = new Map(players.map(p => [p.uid, p]));
+  return candidateEdges
+    .filter(({ writerId, targetId, edge }) =>
+      getEdgeFlow(edge) > 0 && playerMap.get(writerId)!.data.avoids.includes(targetId))
+    .map(({ writerId, targetId }) => ({ writerId, targetId }));
+}
+
+/**
+ * Explain why no valid assignment exists and suggest the smallest fix.
+ * Finds the group of players that breaks Hall's condition and the minimal set of
+ * avoids whose removal makes matching possible again.
+ * N is the default write quota (the game's targets per player). The seed is only used to
+ * re-run matchmaking when the pairing rule forbids short cycles.
+ */
+export function analyzeMatchmakingConflict(
+  players: Player[],
+  N: number,
+  options: MatchmakingOptions = {}
+): ConflictAnalysis {
+  const suggestions: ConflictAnalysis['suggestions'] = [];
+  const bounds = getAssignmentBounds(players, N, options.minReceived);
+  const conflictSummary = (summary: string): ConflictAnalysis => ({ hasConflict: true, violations: [], suggestions, summary });
+
+  if (players.length < 2) {
+    return conflictSummary('Need at least 2 players to run matchmaking.');
+  }
+
+  if (bounds.minReceived * players.length > bounds.totalWrites) {
+    return conflictSummary(
+      `Players write ${bounds.totalWrites} reflections in total, which is not enough for all ${players.length} players to receive at least ${bounds.minReceived}. Raise some write quotas or lower the minimum.`
     );
-    
-    // If player has exactly N valid candidates, they're at the edge
-    // Suggesting preferences won't help the conflict, but we can note it
-    if (validCandidates.length === N) {
-      const neutralPlayers = validCandidates.filter(
-        candidate => !player.data.preferences.includes(candidate.uid)
-      );
-      
-      if (neutralPlayers.length > 0) {
-        // Not critical, but could help with optimization
-        const targetPlayer = neutralPlayers[0];
-        suggestions.push({
-          playerName: player.data.name,
-          action: 'add_preference',
-          targetPlayerName: targetPlayer.data.name,
-          reason: `${player.data.name} has exactly ${N} valid candidates. Adding ${targetPlayer.data.name} to preferences could help with matching.`,
-        });
-      }
+  }
+
+  const groupRules = options.groupRules ?? [];
+  const violation = findHallViolation(players, bounds, groupRules);
+
+  if (!violation) {
+    // Avoids alone still allow a full assignment, so the pairing rule is what breaks it
+    if (options.pairingRule === 'forbid') {
+      return conflictSummary(explainPairingConflict(players, N, bounds, options));
     }
+    return {
+      hasConflict: false,
+      violations: [],
+      suggestions,
+      summary: 'No conflicts found: a valid assignment exists with the current choices.',
+    };
   }
-  
-  // Generate summary
-  let summary = '';
-  if (suggestions.length === 0) {
-    summary = 'No obvious conflicts detected. The issue might be due to complex constraint interactions. Try lowering N or having players adjust their preferences.';
-  } else {
-    const removeAvoidCount = suggestions.filter(s => s.action === 'remove_avoid').length;
-    const addPrefCount = suggestions.filter(s => s.action === 'add_preference').length;
-    
-    summary = `Found ${suggestions.length} suggestion(s): ${removeAvoidCount} remove avoid(s), ${addPrefCount} add preference(s).`;
+
+  const deficit = violation.required - violation.available;
+  const avoidRemovals = findMinimalAvoidRemovals(players, bounds, groupRules);
+  if (!avoidRemovals) {
+    return {
+      hasConflict: true,
+      violations: [violation],
+      suggestions,
+      summary: `${violation.description}, leaving ${deficit} assignment(s) unfilled. The group rules (${groupRules.map(describeGroupRule).join('; ')}) make matching impossible on their own: relax a group rule, change write quotas or invite more players.`,
+    };
   }
-  
+
+  const playerMap = new Map(players.map(p => [p.uid, p]));
+  const groupIds = new Set(violation.playerIds);
+  avoidRemovals.forEach(({ writerId, targetId }) => {
+    const writer = playerMap.get(writerId)!;
+    const target = playerMap.get(targetId)!;
+    const touchesGroup = groupIds.has(violation.side === 'writers' ? writerId : targetId);
+    suggestions.push({
+      playerName: writer.data.name,
+      action: 'remove_avoid',
+      targetPlayerName: target.data.name,
+      reason: touchesGroup
+        ? `${violation.description}. Letting ${writer.data.name} write about ${target.data.name} gives them the room they need.`
+        : `${violation.description}. Letting ${writer.data.name} write about ${target.data.name} frees up room elsewhere so the group can be matched.`,
+    });
+  });
+
   return {
-    hasConflict: suggestions.length > 0,
+    hasConflict: true,
+    violations: [violation],
     suggestions,
-    summary,
+    summary: `${violation.description}, leaving ${deficit} assignment(s) unfilled. Removing ${suggestions.length} Skip this round choice(s) makes matching possible.`,
   };
 }
 
+// Players with this many spare options or fewer are flagged as at risk
+const AT_RISK_SLACK = 1;
+
+// Reflections a typical player receives: the total writing spread evenly, and at least the minimum
+const getExpectedReceived = (players: Player[], bounds: AssignmentBounds) =>
+  players.length > 0 ? Math.max(bounds.minReceived, Math.floor(bounds.totalWrites / players.length)) : 0;
+
+// Writers with a quota who are allowed to write about target
+const countPossibleWriters = (players: Player[], target: Player, bounds: AssignmentBounds, groupRules: GroupRule[]) =>
+  players.filter(p =>
+    p.uid !== target.uid && bounds.writeQuotas.get(p.uid)! > 0 && !isForbiddenPair(p, target, groupRules)
+  ).length;
+
+export interface AtRiskPlayer {
+  playerId: string;
+  playerName: string;
+  reason: 'few_targets' | 'few_writers'; // Too few players they can write about, or who can write about them
+  slack: number; // Options beyond what they need; negative when they cannot be matched
+  description: string;
+}
+
+export interface FeasibilityAssessment {
+  feasible: boolean; // Whether avoids, group rules and quotas allow a full assignment
+  violation: HallViolation | null; // The group that breaks it, when one is found
+  atRiskPlayers: AtRiskPlayer[]; // Most constrained first
+  summary: string;
+}
+
+/**
+ * Quick check, cheap enough to run on every change while players edit their choices:
+ * whether a full assignment exists (the pairing rule is left to the real run), and which
+ * players have almost no room left. A writer is at risk when they can write about barely
+ * more players than their quota; a target when barely more writers can write about them
+ * than the reflections they are expected to receive.
+ */
+export function assessFeasibility(
+  players: Player[],
+  N: number,
+  options: AssignmentConstraints = {}
+): FeasibilityAssessment {
+  const bounds = getAssignmentBounds(players, N, options.minReceived);
+  const groupRules = options.groupRules ?? [];
+  const expectedReceived = getExpectedReceived(players, bounds);
+
+  const atRiskPlayers: AtRiskPlayer[] = [];
+  players.forEach(player => {
+    const quota = bounds.writeQuotas.get(player.uid)!;
+    const targetCount = players.filter(p => p.uid !== player.uid && !isForbiddenPair(player, p, groupRules)).length;
+    if (quota > 0 && targetCount - quota <= AT_RISK_SLACK) {
+      atRiskPlayers.push({
+        playerId: player.uid,
+        playerName: player.data.name,
+        reason: 'few_targets',
+        slack: targetCount - quota,
+        description: `${player.data.name} can write about ${targetCount} player(s) and needs ${quota}`,
+      });
+    }
+    const writerCount = countPossibleWriters(players, player, bounds, groupRules);
+    if (expectedReceived > 0 && writerCount - expectedReceived <= AT_RISK_SLACK) {
+      atRiskPlayers.push({
+        playerId: player.uid,
+        playerName: player.data.name,
+        reason: 'few_writers',
+        slack: writerCount - expectedReceived,
+        description: `${writerCount} player(s) can write about ${player.data.name}, who should receive ${expectedReceived}`,
+      });
+    }
+  });
+  atRiskPlayers.sort((a, b) => a.slack - b.slack);
+
+  if (players.length < 2) {
+    return { feasible: false, violation: null, atRiskPlayers, summary: 'Need at least 2 players to run matchmaking.' };
+  }
+  if (bounds.minReceived * players.length > bounds.totalWrites) {
+    return {
+      feasible: false,
+      violation: null,
+      atRiskPlayers,
+      summary: `Players write ${bounds.totalWrites} reflections in total, not enough for everyone to receive ${bounds.minReceived}.`,
+    };
+  }
+
+  const violation = findHallViolation(players, bounds, groupRules);
+  return {
+    feasible: !violation,
+    violation,
+    atRiskPlayers,
+    summary: violation
+      ? `${violation.description}.`
+      : atRiskPlayers.length > 0
+        ? `Matching is possible, but ${atRiskPlayers.length} player(s) have little room left.`
+        : 'Matching is possible with room to spare.',
+  };
+}
+
+/**
+ * Check whether writer skipping target would break matching, for the guard players see
+ * when they add a Skip this round choice. The reason never says who else skipped the
+ * target. Returns null when the avoid is fine, including when matching was already
+ * impossible before it (another choice is to blame then).
+ */
+export function checkAvoidChoice(
+  players: Player[],
+  writerId: string,
+  targetId: string,
+  N: number,
+  options: AssignmentConstraints = {}
+): string | null {
+  const writer = players.find(p => p.uid === writerId);
+  const target = players.find(p => p.uid === targetId);
+  if (!writer || !target || writer.data.avoids.includes(targetId)) {
+    return null;
+  }
+
+  const bounds = getAssignmentBounds(players, N, options.minReceived);
+  const groupRules = options.groupRules ?? [];
+  const updatedPlayers = players.map(p => p.uid === writerId
+    ? {
+      ...p,
+      data: {
+        ...p.data,
+        avoids: [...p.data.avoids, targetId],
+        preferences: p.data.preferences.filter(uid => uid !== targetId),
+      },
+    }
+    : p
+  );
+  const updatedWriter = updatedPlayers.find(p => p.uid === writerId)!;
+
+  const quota = bounds.writeQuotas.get(writerId)!;
+  const targetCount = updatedPlayers.filter(p => p.uid !== writerId && !isForbiddenPair(updatedWriter, p, groupRules)).length;
+  if (targetCount < quota) {
+    return `You need at least ${quota} people you can write about, so you can't skip ${target.data.name} as well.`;
+  }
+
+  const expectedReceived = getExpectedReceived(players, bounds);
+  const writersBefore = countPossibleWriters(players, target, bounds, groupRules);
+  const writersAfter = countPossibleWriters(updatedPlayers, target, bounds, groupRules);
+  if (writersAfter < expectedReceived && writersBefore >= expectedReceived) {
+    return `Skipping ${target.data.name} would leave too few people who can write about them. Please pick someone else to skip.`;
+  }
+
+  if (!findHallViolation(players, bounds, groupRules) && findHallViolation(updatedPlayers, bounds, groupRules)) {
+    return `Skipping ${target.data.name} would make it impossible to match everyone. Please pick someone else to skip.`;
+  }
+
+  return null;
+}
+
+/**
+ * Explain why forbidding short cycles leaves no valid assignment. Reciprocal pairs can
+ * only be avoided when there are at least as many pairs of players, P * (P - 1) / 2, as
+ * reflections to write; with everyone writing N that means P >= 2N + 1. Avoiding 3-cycles
+ * as well is only guaranteed (by writing about the next N players around a circle) when
+ * P >= 3N + 1. Skip this round choices are only blamed when matchmaking succeeds without
+ * them; otherwise the search may simply have missed a valid assignment.
+ */
+function explainPairingConflict(
+  players: Player[],
+  N: number,
+  bounds: AssignmentBounds,
+  options: MatchmakingOptions
+): string {
+  const playerCount = players.length;
+  const pairCount = (playerCount * (playerCount - 1)) / 2;
+  const includeThreeCycles = options.includeThreeCycles ?? false;
+  const cycles = `reciprocal pairs${includeThreeCycles ? ' and 3-cycles' : ''}`;
+  if (bounds.totalWrites > pairCount) {
+    return `${playerCount} players writing ${bounds.totalWrites} reflections must include some who write about each other: there are only ${pairCount} pairs of players. Switch the pairing rule to "penalize", lower N or invite more players.`;
+  }
+
+  const withoutAvoids = players.map(p => ({ ...p, data: { ...p.data, avoids: [] } }));
+  if (players.some(p => p.data.avoids.length > 0) && runMatchmaking(withoutAvoids, N, { ...options, quiet: true }).feasible) {
+    return `Players' Skip this round choices leave too few options to avoid ${cycles}: without them, matching succeeds. Switch the pairing rule to "penalize" or invite more players.`;
+  }
+  if (includeThreeCycles && playerCount < 3 * bounds.maxReceived + 1) {
+    return `With ${playerCount} players receiving up to ${bounds.maxReceived} reflection(s) each, avoiding 3-cycles as well usually needs at least ${3 * bounds.maxReceived + 1} players. Switch the pairing rule to "penalize", lower N or invite more players.`;
+  }
+  return `The search did not find an assignment without ${cycles}, but one may still exist. Run matchmaking again to try another seed, or switch the pairing rule to "penalize".`;
+}
+
+export const DEFAULT_PREFERENCE_STRENGTH: PreferenceStrength = 2;
+export const MAX_PREFERENCE_STRENGTH: PreferenceStrength = 3;
+
+/**
+ * How much a writer wants to write about a target: the strength of their Merry Pick,
+ * or 0 when the target is not one of their picks
+ */
+export function getPreferenceWeight(writer: Player, targetId: string): number {
+  if (!writer.data.preferences.includes(targetId)) {
+    return 0;
+  }
+  const strength = writer.data.preferenceStrengths[targetId];
+  // Ignore missing or out-of-range strengths written by older clients
+  return Number.isInteger(strength) && strength >= 1 && strength <= MAX_PREFERENCE_STRENGTH
+    ? strength
+    : DEFAULT_PREFERENCE_STRENGTH;
+}
+
+export interface PlayerSatisfaction {
+  playerId: string;
+  playerName: string;
+  assignmentCount: number;
+  preferenceHits: number; // Assigned targets that are in the player's preferences
+  preferenceWeight: number; // Sum of the strengths of those picks
+  satisfaction: number | null; // Weight out of the best achievable (0-1); null without preferences
+}
+
+export interface MatchmakingReport {
+  totalAssignments: number;
+  preferenceHits: number;
+  preferenceWeight: number; // Sum of pick strengths over all assignments
+  neutralFallbacks: number;
+  preferenceHitRate: number; // 0-1
+  playerSatisfaction: PlayerSatisfaction[];
+  reciprocalPairs: Array<[string, string]>; // Player IDs writing about each other
+  threeCycles: Array<[string, string, string]>; // A writes about B, B about C and C about A
+  solverTimeMs: number;
+}
+
+// searchGaveUp is set when a valid assignment may still exist but the search for one
+// without short cycles did not find it; otherwise an infeasible result is definite
+export type MatchmakingResult =
+  | { feasible: true; assignments: Assignment[]; report: MatchmakingReport; seed: number }
+  | { feasible: false; reason: string; seed: number; searchGaveUp: boolean };
+
+// Assignments a repair takes away from writers and the ones it gives them instead
+export interface AssignmentChanges {
+  added: Assignment[];
+  removed: Assignment[];
+}
+
+export type AssignmentRepairResult =
+  | { feasible: true; assignments: Assignment[]; changes: AssignmentChanges; report: MatchmakingReport }
+  | { feasible: false; reason: string };
+
+const getAssignmentKey = ({ writerId, targetId }: Assignment) => `${writerId}->${targetId}`;
+
+function findReciprocalPairs(assignments: Assignment[]): Array<[string, string]> {
+  const assignmentKeys = new Set(assignments.map(getAssignmentKey));
+  return assignments
+    .filter(({ writerId, targetId }) => writerId < targetId && assignmentKeys.has(`${targetId}->${writerId}`))
+    .map(({ writerId, targetId }) => [writerId, targetId]);
+}
+
+function findThreeCycles(assignments: Assignment[]): Array<[string, string, string]> {
+  const assignmentKeys = new Set(assignments.map(getAssignmentKey));
+  const targetsByWriter = new Map<string, string[]>();
+  assignments.forEach(({ writerId, targetId }) => {
+    targetsByWriter.set(writerId, [...(targetsByWriter.get(writerId) || []), targetId]);
+  });
+
+  // Each cycle is found once per rotation, so keep only the one starting at its smallest ID
+  const cycles: Array<[string, string, string]> = [];
+  assignments.forEach(({ writerId: a, targetId: b }) => {
+    (targetsByWriter.get(b) || []).forEach(c => {
+      if (c !== a && a < b && a < c && assignmentKeys.has(`${c}->${a}`)) {
+        cycles.push([a, b, c]);
+      }
+    });
+  });
+  return cycles;
+}
+
+/**
+ * Measure how good a set of assignments is: preference hits and their total strength,
+ * per-player satisfaction, neutral fallbacks, reciprocal pairs (A writes about B and
+ * B about A) and 3-cycles
+ */
+export function buildMatchmakingReport(
+  players: Player[],
+  assignments: Assignment[],
+  solverTimeMs: number = 0
+): MatchmakingReport {
+  const playerMap = new Map(players.map(p => [p.uid, p]));
+
+  const weightOf = ({ writerId, targetId }: Assignment) => {
+    const writer = playerMap.get(writerId);
+    return writer ? getPreferenceWeight(writer, targetId) : 0;
+  };
+  const isPreferred = (assignment: Assignment) => weightOf(assignment) > 0;
+
+  const playerSatisfaction: PlayerSatisfaction[] = players.map(player => {
+    const playerAssignments = assignments.filter(a => a.writerId === player.uid);
+    const preferenceWeight = playerAssignments.reduce((total, a) => total + weightOf(a), 0);
+    // Best case: every assignment goes to one of the player's strongest picks
+    const achievable = player.data.preferences
+      .map(targetId => getPreferenceWeight(player, targetId))
+      .sort((a, b) => b - a)
+      .slice(0, playerAssignments.length)
+      .reduce((total, weight) => total + weight, 0);
+    return {
+      playerId: player.uid,
+      playerName: player.data.name,
+      assignmentCount: playerAssignments.length,
+      preferenceHits: playerAssignments.filter(isPreferred).length,
+      preferenceWeight,
+      satisfaction: achievable > 0 ? preferenceWeight / achievable : null,
+    };
+  });
+
+  const preferenceHits = assignments.filter(isPreferred).length;
+
+  return {
+    totalAssignments: assignments.length,
+    preferenceHits,
+    preferenceWeight: assignments.reduce((total, a) => total + weightOf(a), 0),
+    neutralFallbacks: assignments.length - preferenceHits,
+    preferenceHitRate: assignments.length > 0 ? preferenceHits / assignments.length : 0,
+    playerSatisfaction,
+    reciprocalPairs: findReciprocalPairs(assignments),
+    threeCycles: findThreeCycles(assignments),
+    solverTimeMs,
+  };
+}
+
+/**
+ * Check a set of assignments against the hard constraints: no self or avoided targets,
+ * no duplicates, every player writes exactly their quota (N by default) and receives
+ * within the bounds, and no short cycles when the pairing rule forbids them.
+ * Returns a list of human-readable problems (empty when valid).
+ */
+export function validateAssignments(
+  players: Player[],
+  assignments: Assignment[],
+  N: number,
+  options: AssignmentConstraints = {}
+): string[] {
+  const problems: string[] = [];
+  const bounds = getAssignmentBounds(players, N, options.minReceived);
+  const playerMap = new Map(players.map(p => [p.uid, p]));
+  const nameOf = (uid: string) => playerMap.get(uid)?.data.name || uid;
+  const seen = new Set<string>();
+  const writeCounts = new Map(players.map(p => [p.uid, 0]));
+  const receiveCounts = new Map(players.map(p => [p.uid, 0]));
+
+  for (const { writerId, targetId } of assignments) {
+    const writer = playerMap.get(writerId);
+    if (!writer || !playerMap.has(targetId)) {
+      problems.push(`Assignment ${nameOf(writerId)} → ${nameOf(targetId)} refers to a player who is not in the game`);
+      continue;
+    }
+    if (writerId === targetId) {
+      problems.push(`${nameOf(writerId)} is assigned to write about themselves`);
+    }
+    if (writer.data.avoids.includes(targetId)) {
+      problems.push(`${nameOf(writerId)} is assigned to ${nameOf(targetId)}, who they chose to skip`);
+    }
+    const groupRule = findBlockingGroupRule(writer, playerMap.get(targetId)!, options.groupRules);
+    if (groupRule) {
+      problems.push(`${nameOf(writerId)} is assigned to ${nameOf(targetId)}, but ${describeGroupRule(groupRule)}`);
+    }
+    const key = `${writerId}->${targetId}`;
+    if (seen.has(key)) {
+      problems.push(`${nameOf(writerId)} is assigned to ${nameOf(targetId)} more than once`);
+    }
+    seen.add(key);
+    writeCounts.set(writerId, writeCounts.get(writerId)! + 1);
+    receiveCounts.set(targetId, receiveCounts.get(targetId)! + 1);
+  }
+
+  for (const player of players) {
+    const writes = writeCounts.get(player.uid)!;
+    const receives = receiveCounts.get(player.uid)!;
+    const quota = bounds.writeQuotas.get(player.uid)!;
+    if (writes !== quota) {
+      problems.push(`${player.data.name} writes ${writes} reflection(s) instead of ${quota}`);
+    }
+    if (receives < bounds.minReceived) {
+      problems.push(`${player.data.name} receives ${receives} reflection(s), fewer than the minimum of ${bounds.minReceived}`);
+    }
+    if (receives > bounds.maxReceived) {
+      problems.push(`${player.data.name} receives ${receives} reflection(s), more than the fair share of ${bounds.maxReceived}`);
+    }
+  }
+
+  if (options.pairingRule === 'forbid') {
+    findReciprocalPairs(assignments).forEach(([a, b]) => {
+      problems.push(`${nameOf(a)} and ${nameOf(b)} write about each other`);
+    });
+    if (options.includeThreeCycles) {
+      findThreeCycles(assignments).forEach(([a, b, c]) => {
+        problems.push(`${nameOf(a)} → ${nameOf(b)} → ${nameOf(c)} → ${nameOf(a)} form a 3-cycle`);
+      });
+    }
+  }
+
+  return problems;
+}
+
+// Edge costs: the strongest picks cost 0 and neutral assignments cost the most, so the
+// minimum-cost solution maximizes the total strength of the Merry Picks it satisfies
+const assignmentCost = (writer: Player, targetId: string) =>
+  MAX_PREFERENCE_STRENGTH - getPreferenceWeight(writer, targetId);
+
+// With the 'penalize' pairing rule, a short cycle is worth giving up two ordinary Merry Picks
+const SHORT_CYCLE_PENALTY = 2 * DEFAULT_PREFERENCE_STRENGTH;
+const MAX_CYCLE_BREAKING_SWAPS = 500;
+const FORBID_ATTEMPTS = 10;
+
 /**
  * Matchmaking Algorithm with strict avoid constraints
- * Uses a randomized backtracking approach to find valid assignments
+ * Models the problem as a bipartite assignment and solves it exactly with min-cost
+ * max-flow: source -> writer (capacity = write quota) -> target (capacity 1, skipping
+ * self, avoids and group rules) -> sink (between minReceived and maxReceived). A valid
+ * assignment exists iff every quota is filled and every target reaches minReceived, so
+ * an infeasible result is definite.
+ * N is the default write quota; players can have their own (see getWriteQuota).
+ * Short cycles are then penalized or forbidden by local search, depending on the pairing rule.
+ * Forbidding them is not exact: when the search and a circular fallback both fail, the
+ * result says the search gave up rather than that no assignment exists.
+ * Deterministic for a given seed.
  */
-export function runMatchmaking(players: Player[], N: number): Assignment[] | null {
-  console.log('🎯 Starting matchmaking...', { playerCount: players.length, targetsPerPlayer: N });
+export function runMatchmaking(
+  players: Player[],
+  N: number,
+  options: MatchmakingOptions = {}
+): MatchmakingResult {
+  const seed = options.seed ?? generateSeed();
+  const startTime = performance.now();
+  const bounds = getAssignmentBounds(players, N, options.minReceived);
+  const log = options.quiet ? () => {} : console.log;
+  log('🎯 Starting matchmaking...', {
+    playerCount: players.length,
+    targetsPerPlayer: N,
+    totalWrites: bounds.totalWrites,
+    seed,
+  });
+
+  const fail = (reason: string, searchGaveUp = false): MatchmakingResult => {
+    if (!options.quiet) console.error(`❌ ${reason}`);
+    return { feasible: false, reason, seed, searchGaveUp };
+  };
 
   // Validate inputs
   if (players.length < 2) {
-    console.error('❌ Need at least 2 players');
-    return null;
+    return fail('Need at least 2 players');
   }
 
   if (N < 1) {
-    console.error('❌ N must be at least 1');
-    return null;
+    return fail('N must be at least 1');
+  }
+
+  if (players.some(p => bounds.writeQuotas.get(p.uid)! < 0)) {
+    return fail('Write quotas cannot be negative');
+  }
+
+  if (bounds.minReceived * players.length > bounds.totalWrites) {
+    return fail(`Players write ${bounds.totalWrites} reflections in total, not enough for everyone to receive ${bounds.minReceived}`);
   }
 
   // Check if each player has enough valid candidates (as a writer)
   for (const player of players) {
+    const quota = bounds.writeQuotas.get(player.uid)!;
     const validCandidates = players.filter(
-      p => p.uid !== player.uid && !player.data.avoids.includes(p.uid)
+      p => p.uid !== player.uid && !isForbiddenPair(player, p, options.groupRules)
     );
     
-    if (validCandidates.length < N) {
-      console.error(`❌ Player ${player.data.name} (${player.uid}) has only ${validCandidates.length} valid candidates but needs ${N}`);
-      return null;
+    if (validCandidates.length < quota) {
+      return fail(`Player ${player.data.name} (${player.uid}) has only ${validCandidates.length} valid candidates but needs ${quota}`);
     }
   }
 
-  // Check if any player is avoided by everyone (cannot receive assignments as a target)
+  // Check if any player is avoided by too many writers to reach the minimum
   for (const targetPlayer of players) {
     const playersWhoCanWriteAboutTarget = players.filter(
-      p => p.uid !== targetPlayer.uid && !p.data.avoids.includes(targetPlayer.uid)
+      p => p.uid !== targetPlayer.uid &&
+        !isForbiddenPair(p, targetPlayer, options.groupRules) &&
+        bounds.writeQuotas.get(p.uid)! > 0
     );
     
-    if (playersWhoCanWriteAboutTarget.length < N) {
-      console.error(`❌ Player ${targetPlayer.data.name} (${targetPlayer.uid}) is avoided by ${players.length - 1 - playersWhoCanWriteAboutTarget.length} player(s) and can only receive ${playersWhoCanWriteAboutTarget.length} assignment(s) but needs ${N}`);
-      return null;
+    if (playersWhoCanWriteAboutTarget.length < bounds.minReceived) {
+      return fail(`Player ${targetPlayer.data.name} (${targetPlayer.uid}) can only be written about by ${playersWhoCanWriteAboutTarget.length} player(s) but needs at least ${bounds.minReceived}`);
     }
   }
 
-  // Create a map for quick lookups
-  const playerMap = new Map(players.map(p => [p.uid, p]));
-  const originalPlayerIds = players.map(p => p.uid);
-
-  // Shuffle array helper
-  function shuffle<T>(array: T[]): T[] {
-    const shuffled = [...array];
-    for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  const pairingRule = options.pairingRule ?? 'allow';
+  const includeThreeCycles = options.includeThreeCycles ?? false;
+  const pairCount = (players.length * (players.length - 1)) / 2;
+  if (pairingRule === 'forbid' && bounds.totalWrites > pairCount) {
+    return fail(`Avoiding reciprocal pairs needs at most ${pairCount} reflections in total, but players write ${bounds.totalWrites}`);
+  }
+
+  // Shuffle with the seed so ties between equally good solutions are broken reproducibly.
+  // When short cycles are forbidden, retry from other tie-breaks if local search gets stuck.
+  const random = createSeededRandom(seed);
+  const attempts = pairingRule === 'forbid' ? FORBID_ATTEMPTS : 1;
+  let assignments: Assignment[] = [];
+  for (let attempt = 0; attempt < attempts; attempt++) {
+    const solved = solveAssignmentFlow(players, bounds, options.groupRules ?? [], random);
+    if (!solved) {
+      return fail('No assignment satisfies every avoid and group rule: some players cannot be given enough writers or targets');
     }
-    return shuffled;
-  }
-
-  // Try multiple times with different randomizations
-  const maxAttempts = 100;
-  for (let attempt = 0; attempt < maxAttempts; attempt++) {
-    // Create shuffled player order for this attempt
-    const shuffledPlayerIds = shuffle([...originalPlayerIds]);
-
-    // Track assignments: writerId -> targetIds[]
-    const assignments: Map<string, string[]> = new Map();
-    originalPlayerIds.forEach(uid => assignments.set(uid, []));
-
-    // Track target counts: targetId -> count
-    const targetCounts: Map<string, number> = new Map();
-    originalPlayerIds.forEach(uid => targetCounts.set(uid, 0));
-
-    // Helper: Get valid candidates for a writer, prioritized
-    function getValidCandidates(writerId: string): string[] {
-      const writer = playerMap.get(writerId)!;
-      const currentAssignments = assignments.get(writerId)!;
-      
-      // Get all valid candidates (not self, not in avoids, not already assigned, not at capacity)
-      const valid = originalPlayerIds.filter(targetId => {
-        if (targetId === writerId) return false;
-        if (writer.data.avoids.includes(targetId)) return false;
-        if (currentAssignments.includes(targetId)) return false;
-        if (targetCounts.get(targetId)! >= N) return false;
-        return true;
-      });
+    assignments = pairingRule === 'allow'
+      ? solved
+      : breakShortCycles(players, solved, pairingRule, includeThreeCycles, options.groupRules ?? [], random);
+    if (pairingRule !== 'forbid' || countShortCycles(assignments, includeThreeCycles) === 0) {
+      break;
+    }
+  }
 
-      // Prioritize: preferences first, then neutral
-      const preferences = valid.filter(id => writer.data.preferences.includes(id));
-      const neutral = valid.filter(id => !writer.data.preferences.includes(id));
-      
-      // Shuffle for randomization
-      return [...shuffle(preferences), ...shuffle(neutral)];
+  // Local search can get stuck on games that have a valid assignment, so try writing
+  // about the next players around a circle before giving up
+  if (pairingRule === 'forbid' && countShortCycles(assignments, includeThreeCycles) > 0) {
+    const circular = findCircularAssignment(players, N, options, random);
+    if (!circular) {
+      return fail(
+        `The search did not find an assignment without reciprocal pairs${includeThreeCycles ? ' or 3-cycles' : ''}. One may still exist: try another seed`,
+        true
+      );
     }
+    assignments = circular;
+  }
 
-    // Backtracking algorithm
-    function backtrack(writerIndex: number): boolean {
-      if (writerIndex >= shuffledPlayerIds.length) {
-        // All writers have been processed
-        return true;
-      }
+  const report = buildMatchmakingReport(players, assignments, performance.now() - startTime);
 
-      const writerId = shuffledPlayerIds[writerIndex];
-      const currentAssignments = assignments.get(writerId)!;
-      
-      // If this writer already has N assignments, move to next
-      if (currentAssignments.length >= N) {
-        return backtrack(writerIndex + 1);
-      }
+  log('✅ Matchmaking successful!', assignments, report);
+  return { feasible: true, assignments, report, seed };
+}
 
-      // Get valid candidates for this writer
-      const candidates = getValidCandidates(writerId);
-      
-      if (candidates.length === 0) {
-        // No valid candidates - backtrack
-        return false;
-      }
+/**
+ * Build the flow network source -> writer (capacity = quota) -> target (capacity 1) ->
+ * sink. edgeCost returns null for pairs that are not allowed; self pairs are always
+ * skipped. The first minReceived units into each target go through a separate edge
+ * with a large negative cost, so a minimum-cost flow meets every minimum before it
+ * looks at edge costs. Returns those edges so callers can check they are saturated.
+ */
+function buildAssignmentNetwork(
+  writers: Player[],
+  targets: Player[],
+  bounds: AssignmentBounds,
+  edgeCost: (writer: Player, target: Player) => number | null
+) {
+  // Nodes: 0 = source, 1..P = writers, P+1..2P = targets, 2P+1 = sink
+  const playerCount = writers.length;
+  const source = 0;
+  const sink = 2 * playerCount + 1;
+  const writerNode = (index: number) => 1 + index;
+  const targetNode = (index: number) => 1 + playerCount + index;
+  const network = createFlowNetwork(2 * playerCount + 2);
+  let largestEdgeCost: number = MAX_PREFERENCE_STRENGTH;
 
-      // Try each candidate
-      for (const targetId of candidates) {
-        // Make assignment
-        currentAssignments.push(targetId);
-        targetCounts.set(targetId, targetCounts.get(targetId)! + 1);
+  const candidateEdges: Array<{ writerId: string; targetId: string; edge: FlowEdge }> = [];
+  writers.forEach((writer, writerIndex) => {
+    addFlowEdge(network, source, writerNode(writerIndex), bounds.writeQuotas.get(writer.uid) || 0, 0);
+    targets.forEach((target, targetIndex) => {
+      if (target.uid === writer.uid) return;
+      const cost = edgeCost(writer, target);
+      if (cost === null) return;
+      largestEdgeCost = Math.max(largestEdgeCost, Math.abs(cost));
+      const edge = addFlowEdge(network, writerNode(writerIndex), targetNode(targetIndex), 1, cost);
+      candidateEdges.push({ writerId: writer.uid, targetId: target.uid, edge });
+    });
+  });
 
-        // Recursively try next
-        if (backtrack(writerIndex)) {
-          return true;
-        }
+  // Outweighs the edge costs of every other assignment combined (edge costs may be negative)
+  const minimumReward = (2 * bounds.totalWrites + 1) * largestEdgeCost + 1;
+  const minimumEdges: FlowEdge[] = [];
+  targets.forEach((_, targetIndex) => {
+    if (bounds.minReceived > 0) {
+      minimumEdges.push(addFlowEdge(network, targetNode(targetIndex), sink, bounds.minReceived, -minimumReward));
+    }
+    addFlowEdge(network, targetNode(targetIndex), sink, bounds.maxReceived - bounds.minReceived, 0);
+  });
 
-        // Undo assignment (backtrack)
-        currentAssignments.pop();
-        targetCounts.set(targetId, targetCounts.get(targetId)! - 1);
-      }
+  return { network, source, sink, writerNode, targetNode, candidateEdges, minimumEdges };
+}
 
-      return false;
+/**
+ * Solve the assignment with min-cost max-flow, shuffling players with the given random
+ * number generator to break ties. Returns null when no full assignment exists.
+ */
+function solveAssignmentFlow(
+  players: Player[],
+  bounds: AssignmentBounds,
+  groupRules: GroupRule[],
+  random: () => number
+): Assignment[] | null {
+  const writers = seededShuffle(players, random);
+  const targets = seededShuffle(players, random);
+  const { network, source, sink, candidateEdges, minimumEdges } = buildAssignmentNetwork(
+    writers,
+    targets,
+    bounds,
+    (writer, target) => {
+      if (isForbiddenPair(writer, target, groupRules)) return null;
+      return assignmentCost(writer, target.uid);
     }
+  );
+
+  const { flow } = solveMinCostMaxFlow(network, source, sink);
+  if (flow < bounds.totalWrites || minimumEdges.some(edge => getEdgeFlow(edge) < bounds.minReceived)) {
+    return null;
+  }
 
-    if (backtrack(0)) {
-      // Success! Convert to Assignment array
-      const result: Assignment[] = [];
-      for (const [writerId, targetIds] of assignments.entries()) {
-        for (const targetId of targetIds) {
-          result.push({ writerId, targetId });
+  return candidateEdges
+    .filter(({ edge }) => getEdgeFlow(edge) > 0)
+    .map(({ writerId, targetId }) => ({ writerId, targetId }));
+}
+
+/**
+ * Fit the assignments to the current players while changing as few of them as possible,
+ * e.g. to bring in players who joined after matchmaking. Submitted assignments (locked)
+ * are always kept. Solved with the same flow network as runMatchmaking, where keeping an
+ * existing assignment is free, every new one costs more than all preference costs
+ * combined, and locked ones earn a reward that outweighs both. Preferences only break
+ * ties between repairs with the same number of changes.
+ * Assignments involving players who are no longer in the game are dropped.
+ */
+export function repairAssignments(
+  players: Player[],
+  currentAssignments: Assignment[],
+  lockedAssignments: Assignment[],
+  N: number,
+  options: RepairOptions = {}
+): AssignmentRepairResult {
+  const startTime = performance.now();
+  const bounds = getAssignmentBounds(players, N, options.minReceived);
+  const log = options.quiet ? () => {} : console.log;
+  const playerIds = new Set(players.map(p => p.uid));
+  const isInGame = ({ writerId, targetId }: Assignment) => playerIds.has(writerId) && playerIds.has(targetId);
+  const currentKeys = new Set(currentAssignments.filter(isInGame).map(getAssignmentKey));
+  const lockedKeys = new Set(lockedAssignments.filter(isInGame).map(getAssignmentKey));
+
+  const fail = (reason: string): AssignmentRepairResult => {
+    if (!options.quiet) console.error(`❌ ${reason}`);
+    return { feasible: false, reason };
+  };
+
+  if (players.length < 2) {
+    return fail('Need at least 2 players');
+  }
+
+  if (players.some(p => bounds.writeQuotas.get(p.uid)! < 0)) {
+    return fail('Write quotas cannot be negative');
+  }
+
+  if (bounds.minReceived * players.length > bounds.totalWrites) {
+    return fail(`Players write ${bounds.totalWrites} reflections in total, not enough for everyone to receive ${bounds.minReceived}`);
+  }
+
+  const rewireCost = bounds.totalWrites * MAX_PREFERENCE_STRENGTH + 1;
+  const lockReward = bounds.totalWrites * (rewireCost + MAX_PREFERENCE_STRENGTH) + 1;
+  const { network, source, sink, candidateEdges, minimumEdges } = buildAssignmentNetwork(
+    players,
+    players,
+    bounds,
+    (writer, target) => {
+      const key = `${writer.uid}->${target.uid}`;
+      if (lockedKeys.has(key)) return -lockReward;
+      if (isForbiddenPair(writer, target, options.groupRules)) return null;
+      return assignmentCost(writer, target.uid) + (currentKeys.has(key) ? 0 : rewireCost);
+    }
+  );
+
+  const { flow } = solveMinCostMaxFlow(network, source, sink);
+  if (flow < bounds.totalWrites || minimumEdges.some(edge => getEdgeFlow(edge) < bounds.minReceived)) {
+    return fail('No assignment satisfies every avoid and group rule: some players cannot be given enough writers or targets');
+  }
+
+  const assignments = candidateEdges
+    .filter(({ edge }) => getEdgeFlow(edge) > 0)
+    .map(({ writerId, targetId }) => ({ writerId, targetId }));
+  const assignmentKeys = new Set(assignments.map(getAssignmentKey));
+  if ([...lockedKeys].some(key => !assignmentKeys.has(key))) {
+    return fail('Submitted reflections leave no room for a valid assignment: some writers or targets already have too many');
+  }
+
+  const problems = validateAssignments(players, assignments, N, options);
+  if (problems.length > 0) {
+    return fail(`The repaired assignments break the pairing rule: ${problems.join('; ')}`);
+  }
+
+  const changes: AssignmentChanges = {
+    added: assignments.filter(assignment => !currentKeys.has(getAssignmentKey(assignment))),
+    removed: currentAssignments.filter(assignment => !assignmentKeys.has(getAssignmentKey(assignment))),
+  };
+  const report = buildMatchmakingReport(players, assignments, performance.now() - startTime);
+
+  log('✅ Assignments repaired', changes);
+  return { feasible: true, assignments, changes, report };
+}
+
+/**
+ * Everyone writes about the players right after them around a circle, trying a few seeded
+ * orders of the circle. With equal quotas of N this has no reciprocal pairs when there are
+ * at least 2N + 1 players, and no 3-cycles either with at least 3N + 1. Returns the valid
+ * order with the most Merry Picks, or null when no order tried fits the avoids, group
+ * rules, receive bounds and pairing rule.
+ */
+function findCircularAssignment(
+  players: Player[],
+  N: number,
+  options: AssignmentConstraints,
+  random: () => number
+): Assignment[] | null {
+  const bounds = getAssignmentBounds(players, N, options.minReceived);
+  const costOf = (assignments: Assignment[]) =>
+    assignments.reduce((total, { writerId, targetId }) =>
+      total + assignmentCost(players.find(p => p.uid === writerId)!, targetId), 0);
+
+  let best: Assignment[] | null = null;
+  for (let attempt = 0; attempt < FORBID_ATTEMPTS; attempt++) {
+    const circle = seededShuffle(players, random);
+    const assignments = circle.flatMap((writer, index) =>
+      Array.from({ length: bounds.writeQuotas.get(writer.uid)! }, (_, offset) => ({
+        writerId: writer.uid,
+        targetId: circle[(index + offset + 1) % circle.length].uid,
+      }))
+    );
+    if (validateAssignments(players, assignments, N, options).length > 0) continue;
+    if (!best || costOf(assignments) < costOf(best)) {
+      best = assignments;
+    }
+  }
+  return best;
+}
+
+function countShortCycles(assignments: Assignment[], includeThreeCycles: boolean): number {
+  return findReciprocalPairs(assignments).length + (includeThreeCycles ? findThreeCycles(assignments).length : 0);
+}
+
+/**
+ * Local search that removes short cycles by swapping the targets of two assignments.
+ * Swaps keep every player's write and receive counts, so only self, avoid, group rule and
+ * duplicate checks are needed. A swap is taken when it lowers the assignment cost plus a penalty per
+ * short cycle; with 'forbid' the penalty outweighs every preference.
+ */
+function breakShortCycles(
+  players: Player[],
+  assignments: Assignment[],
+  pairingRule: PairingRule,
+  includeThreeCycles: boolean,
+  groupRules: GroupRule[],
+  random: () => number
+): Assignment[] {
+  const playerMap = new Map(players.map(p => [p.uid, p]));
+  const cyclePenalty = pairingRule === 'forbid'
+    ? assignments.length * MAX_PREFERENCE_STRENGTH + 1
+    : SHORT_CYCLE_PENALTY;
+
+  const scoreOf = (candidate: Assignment[]) =>
+    candidate.reduce(
+      (total, { writerId, targetId }) => total + assignmentCost(playerMap.get(writerId)!, targetId),
+      0
+    ) + cyclePenalty * countShortCycles(candidate, includeThreeCycles);
+
+  const swapTargets = (current: Assignment[], first: number, second: number): Assignment[] | null => {
+    const a = current[first];
+    const b = current[second];
+    if (a.targetId === b.targetId || a.writerId === b.writerId) return null;
+    if (a.writerId === b.targetId || b.writerId === a.targetId) return null;
+    if (isForbiddenPair(playerMap.get(a.writerId)!, playerMap.get(b.targetId)!, groupRules)) return null;
+    if (isForbiddenPair(playerMap.get(b.writerId)!, playerMap.get(a.targetId)!, groupRules)) return null;
+    const keys = new Set(current.map(getAssignmentKey));
+    if (keys.has(`${a.writerId}->${b.targetId}`) || keys.has(`${b.writerId}->${a.targetId}`)) return null;
+
+    const next = [...current];
+    next[first] = { writerId: a.writerId, targetId: b.targetId };
+    next[second] = { writerId: b.writerId, targetId: a.targetId };
+    return next;
+  };
+
+  // Indices of assignments that are part of a short cycle
+  const cycleIndicesOf = (current: Assignment[]) => {
+    const indexByKey = new Map(current.map((assignment, index) => [getAssignmentKey(assignment), index]));
+    const indices = new Set<number>();
+    findReciprocalPairs(current).forEach(([a, b]) => {
+      indices.add(indexByKey.get(`${a}->${b}`)!);
+      indices.add(indexByKey.get(`${b}->${a}`)!);
+    });
+    if (includeThreeCycles) {
+      findThreeCycles(current).forEach(([a, b, c]) => {
+        indices.add(indexByKey.get(`${a}->${b}`)!);
+        indices.add(indexByKey.get(`${b}->${c}`)!);
+        indices.add(indexByKey.get(`${c}->${a}`)!);
+      });
+    }
+    return [...indices];
+  };
+
+  let current = assignments;
+  let score = scoreOf(current);
+  for (let swaps = 0; swaps < MAX_CYCLE_BREAKING_SWAPS; swaps++) {
+    const cycleIndices = seededShuffle(cycleIndicesOf(current), random);
+    if (cycleIndices.length === 0) break;
+
+    let improved = false;
+    const allIndices = seededShuffle(current.map((_, index) => index), random);
+    for (const first of cycleIndices) {
+      for (const second of allIndices) {
+        const candidate = swapTargets(current, first, second);
+        if (!candidate) continue;
+        const candidateScore = scoreOf(candidate);
+        if (candidateScore < score) {
+          current = candidate;
+          score = candidateScore;
+          improved = true;
+          break;
         }
       }
-
-      console.log('✅ Matchmaking successful!', result);
-      return result;
+      if (improved) break;
     }
+    if (!improved) break;
   }
 
-  console.error('❌ Matchmaking failed after', maxAttempts, 'attempts');
-  return null;
+  return current;
 }
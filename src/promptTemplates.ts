@@ -0,0 +1,156 @@
+import { GameConfig, ReflectionPrompt, ScreenCopy } from './types';
+import { DEFAULT_PROMPTS } from './prompts';
+
+/**
+ * A ready-made prompt set for an occasion. Applying one in the admin panel fills in the
+ * prompts, the screen copy and sensible matchmaking limits, which the host can still edit.
+ */
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  description: string;
+  prompts: ReflectionPrompt[];
+  config: Pick<GameConfig, 'targetsPerPlayer' | 'maxPreferences' | 'maxAvoids'>;
+  screenCopy: ScreenCopy;
+}
+
+export const DEFAULT_SCREEN_COPY: ScreenCopy = {
+  preferencesTitle: 'Set Your Preferences',
+  preferencesSubtitle: '✨ Mark your Merry Picks (optional) and who to Skip this round ✨',
+  writingTitle: 'Write Your Reflections',
+  writingSubtitle: '🎁 Share what you want to tell each person 🎁',
+};
+
+export const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'christmas',
+    name: '🎄 Christmas Reflections',
+    description: 'The original: a first impression, then what you want to tell them',
+    prompts: DEFAULT_PROMPTS,
+    config: { targetsPerPlayer: 2, maxPreferences: 10, maxAvoids: 5 },
+    screenCopy: DEFAULT_SCREEN_COPY,
+  },
+  {
+    id: 'gratitude',
+    name: '💌 Gratitude Notes',
+    description: 'Short thank-you notes, with an optional shared memory',
+    prompts: [
+      {
+        id: 'thanks',
+        label: "What I'm Grateful to You For",
+        placeholder: '💌 Something they did, or something about who they are',
+        required: true,
+        maxLength: 1500,
+      },
+      {
+        id: 'moment',
+        label: 'A Moment I Remember',
+        placeholder: 'A time they made a difference (optional)',
+        required: false,
+        maxLength: 1000,
+      },
+    ],
+    config: { targetsPerPlayer: 3, maxPreferences: 10, maxAvoids: 5 },
+    screenCopy: {
+      preferencesTitle: 'Who Would You Like to Thank?',
+      preferencesSubtitle: '⭐ Star the people you know well, and skip anyone you would rather not write to',
+      writingTitle: 'Write Your Thank-You Notes',
+      writingSubtitle: '💌 Tell each person what you appreciate about them',
+    },
+  },
+  {
+    id: 'retro-kudos',
+    name: '🙌 Team Retro Kudos',
+    description: 'Quick, specific kudos for a team retrospective',
+    prompts: [
+      {
+        id: 'kudos',
+        label: 'Kudos For',
+        placeholder: 'What did they do this sprint or project?',
+        required: true,
+        maxLength: 500,
+      },
+      {
+        id: 'impact',
+        label: 'The Impact It Had',
+        placeholder: 'How it helped you or the team (optional)',
+        required: false,
+        maxLength: 500,
+      },
+      {
+        id: 'keep',
+        label: 'Keep Doing',
+        placeholder: 'One thing you hope they keep doing (optional)',
+        required: false,
+        maxLength: 300,
+      },
+    ],
+    config: { targetsPerPlayer: 2, maxPreferences: 5, maxAvoids: 3 },
+    screenCopy: {
+      preferencesTitle: 'Who Did You Work With?',
+      preferencesSubtitle: '⭐ Star the teammates you worked with most, and skip anyone you would rather not review',
+      writingTitle: 'Give Your Kudos',
+      writingSubtitle: '🙌 Call out something specific each teammate did well',
+    },
+  },
+  {
+    id: 'farewell',
+    name: '👋 Farewell Messages',
+    description: 'Goodbye notes for a group that is parting ways',
+    prompts: [
+      {
+        id: 'memory',
+        label: 'My Favorite Memory Together',
+        placeholder: 'A moment you will remember (optional)',
+        required: false,
+        maxLength: 1500,
+      },
+      {
+        id: 'wish',
+        label: 'What I Wish You Next',
+        placeholder: '👋 Your wishes for what comes next',
+        required: true,
+        maxLength: 1500,
+      },
+    ],
+    config: { targetsPerPlayer: 3, maxPreferences: 10, maxAvoids: 5 },
+    screenCopy: {
+      preferencesTitle: 'Who Will You Miss?',
+      preferencesSubtitle: '⭐ Star the people you shared the most with, and skip anyone you would rather not write to',
+      writingTitle: 'Write Your Farewells',
+      writingSubtitle: '👋 Leave each person a message to take with them',
+    },
+  },
+  {
+    id: 'one-word',
+    name: '🔤 One Word About You',
+    description: 'A single word for each person, and optionally why',
+    prompts: [
+      {
+        id: 'word',
+        label: 'One Word That Describes You',
+        placeholder: 'Just one word',
+        required: true,
+        maxLength: 30,
+      },
+      {
+        id: 'why',
+        label: 'Why That Word',
+        placeholder: 'A sentence or two (optional)',
+        required: false,
+        maxLength: 280,
+      },
+    ],
+    config: { targetsPerPlayer: 4, maxPreferences: 10, maxAvoids: 5 },
+    screenCopy: {
+      preferencesTitle: 'Who Do You Know?',
+      preferencesSubtitle: '⭐ Star the people you could sum up, and skip anyone you would rather not describe',
+      writingTitle: 'Sum Them Up',
+      writingSubtitle: '🔤 Pick one word for each person',
+    },
+  },
+];
+
+export function getScreenCopy(config: GameConfig | undefined): ScreenCopy {
+  return config?.screenCopy || DEFAULT_SCREEN_COPY;
+}
@@ -0,0 +1,85 @@
+import { Answers, GameConfig, ReflectionPrompt } from './types';
+
+// Mirrored by the submission rules in firestore.rules, which check at most MAX_PROMPTS prompts
+export const MAX_PROMPTS = 5;
+export const MAX_ANSWER_LENGTH = 5000;
+
+// The original "first impression vs reality" pair, used when a game has no prompts configured
+export const DEFAULT_PROMPTS: ReflectionPrompt[] = [
+  {
+    id: 'impression',
+    label: 'First Impression',
+    placeholder: '🎄 What was your first impression of this person? (Optional - leave empty if you prefer)',
+    required: false,
+    maxLength: MAX_ANSWER_LENGTH,
+  },
+  {
+    id: 'reality',
+    label: 'What You Want to Tell Them',
+    placeholder: '🎁 What do you want to tell this person?',
+    required: true,
+    maxLength: MAX_ANSWER_LENGTH,
+  },
+];
+
+export function getPrompts(config: GameConfig | undefined): ReflectionPrompt[] {
+  return config?.prompts && config.prompts.length > 0 ? config.prompts : DEFAULT_PROMPTS;
+}
+
+export function generatePromptId(): string {
+  return `p${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Why a host's prompt set can't be used, or null when it is valid
+ */
+export function validatePrompts(prompts: ReflectionPrompt[]): string | null {
+  if (prompts.length === 0) {
+    return 'Add at least one prompt';
+  }
+  if (prompts.length > MAX_PROMPTS) {
+    return `Use at most ${MAX_PROMPTS} prompts`;
+  }
+  if (prompts.some(prompt => !prompt.label.trim())) {
+    return 'Every prompt needs a label';
+  }
+  if (prompts.some(prompt => !Number.isInteger(prompt.maxLength) || prompt.maxLength < 1 || prompt.maxLength > MAX_ANSWER_LENGTH)) {
+    return `Character limits must be between 1 and ${MAX_ANSWER_LENGTH}`;
+  }
+  if (!prompts.some(prompt => prompt.required)) {
+    return 'Make at least one prompt required, so reflections are never empty';
+  }
+  if (new Set(prompts.map(prompt => prompt.id)).size !== prompts.length) {
+    return 'Prompt IDs must be unique';
+  }
+  return null;
+}
+
+/**
+ * Trim the answers and keep only non-empty ones for the given prompts
+ */
+export function cleanAnswers(prompts: ReflectionPrompt[], answers: Answers): Answers {
+  const cleaned: Answers = {};
+  prompts.forEach(prompt => {
+    const answer = answers[prompt.id]?.trim();
+    if (answer) {
+      cleaned[prompt.id] = answer;
+    }
+  });
+  return cleaned;
+}
+
+/**
+ * The first required prompt left unanswered, or null when the answers can be submitted
+ */
+export function findMissingAnswer(prompts: ReflectionPrompt[], answers: Answers): ReflectionPrompt | null {
+  return prompts.find(prompt => prompt.required && !answers[prompt.id]?.trim()) || null;
+}
+
+/**
+ * Whether two sets of answers say the same thing, treating empty answers as missing
+ */
+export function areAnswersEqual(first: Answers, second: Answers): boolean {
+  const keys = new Set([...Object.keys(first), ...Object.keys(second)]);
+  return [...keys].every(key => (first[key] || '') === (second[key] || ''));
+}
@@ -1,27 +1,154 @@
 export type GameStatus = 'LOBBY' | 'PREFERENCES' | 'WRITING' | 'REVEAL';
 
+// How matchmaking treats short cycles (A -> B -> A, and optionally A -> B -> C -> A),
+// which make it easy to guess who wrote what during the reveal
+export type PairingRule = 'allow' | 'penalize' | 'forbid';
+
+// Host-defined rule between player groups, enforced like an avoid for every pair it covers:
+// 'within' stops players in the group writing about each other, 'across' stops players
+// in fromGroup writing about players in toGroup
+export type GroupRule =
+  | { type: 'within'; group: string }
+  | { type: 'across'; fromGroup: string; toGroup: string };
+
+// One question writers answer about each target, configured per game
+export interface ReflectionPrompt {
+  id: string; // Key of the answer in a submission; stable when the label changes
+  label: string;
+  placeholder?: string;
+  required: boolean;
+  maxLength: number; // Characters
+}
+
+// A writer's answers, keyed by prompt ID. Empty answers are left out.
+export type Answers = Record<string, string>;
+
+// Optional keyword filter that flags submissions for the hosts to review before the reveal.
+// Runs on the writer's device when submitting, so nothing is blocked, only flagged.
+export interface ContentFilter {
+  enabled: boolean;
+  keywords: string[]; // Checked in addition to the built-in list
+}
+
+// Headings players see, so a game can be themed for its occasion
+export interface ScreenCopy {
+  preferencesTitle: string;
+  preferencesSubtitle: string;
+  writingTitle: string;
+  writingSubtitle: string;
+}
+
 export interface GameConfig {
   targetsPerPlayer: number;
   maxPreferences: number;
   maxAvoids: number;
+  pairingRule?: PairingRule; // Defaults to 'allow'
+  includeThreeCycles?: boolean; // Apply the pairing rule to cycles of length 3 as well
+  minReceived?: number; // Fewest reflections any player receives; defaults to 1
+  groupRules?: GroupRule[];
+  editLockAt?: number | null; // Milliseconds since epoch after which submissions can't be edited or withdrawn
+  prompts?: ReflectionPrompt[]; // Defaults to DEFAULT_PROMPTS (src/prompts.ts)
+  templateId?: string; // Prompt template the host last applied (src/promptTemplates.ts)
+  screenCopy?: ScreenCopy; // Defaults to DEFAULT_SCREEN_COPY (src/promptTemplates.ts)
+  contentFilter?: ContentFilter; // Off when missing
+}
+
+// Recorded when assignments are committed, so the run can be reproduced later
+export interface MatchmakingRun {
+  seed: number;
+  matchesSeededRun: boolean; // False when the host edited the draft (or players changed) before committing
+  committedAt: number;
+}
+
+// What happens when the writing deadline passes. Writing closes either way;
+// 'reveal' also moves the game on to REVEAL
+export type DeadlineAction = 'reveal' | 'lock';
+
+export interface WritingDeadline {
+  endsAt: number; // Milliseconds since epoch on the server's clock
+  onExpire: DeadlineAction;
 }
 
 export interface GameData {
   status: GameStatus;
   config: GameConfig;
   currentRevealId: string | null;
+  ownerId: string; // UID of the host who created the room
+  matchmakingRun?: MatchmakingRun | null; // Set by the server when assignments are committed
+  writingDeadline?: WritingDeadline | null; // Set by the server when a host starts the countdown
+}
+
+export interface CoHostInvite {
+  createdBy: string;
+  createdAt: number;
+}
+
+export interface CoHostData {
+  inviteToken: string; // Invite the co-host redeemed (checked by the security rules)
+  joinedAt: number;
+}
+
+export interface Submission {
+  answers: Answers;
+  writerRevealed?: boolean; // Whether the writer has chosen to reveal their name
+  editCount?: number; // Times the writer changed the text after submitting
+  editedAt?: number; // Milliseconds since epoch of the last edit
+  hidden?: boolean; // Set by a host to keep the reflection out of the reveal
+  flagged?: boolean; // Needs a host's review, raised by a host or the content filter
+  flaggedTerms?: string[]; // Words the content filter matched when it was last submitted or edited
 }
 
-export interface PlayerData {
+// How well a player knows someone they starred: 1 = a bit, 2 = well, 3 = very well
+export type PreferenceStrength = 1 | 2 | 3;
+
+// Stored at players/{uid} - readable by everyone in the room
+export interface PublicPlayerData {
   name: string;
   preferences: string[]; // User IDs the player "Starred/Liked"
-  avoids: string[]; // User IDs the player explicitly "Blocked/Avoided"
+  preferenceStrengths: Record<string, PreferenceStrength>; // Keyed by starred user ID; missing entries count as 2
   assignments: string[]; // Final assigned Target IDs
-  submissions: Record<string, {
-    impression: string;
-    reality: string;
-    writerRevealed?: boolean; // Whether the writer has chosen to reveal their name
-  }>;
+  writeQuota: number | null; // Reflections this player writes, set by a host; null uses targetsPerPlayer
+}
+
+// Stored at privatePlayerData/{uid} - readable only by the player and the hosts
+export interface PrivatePlayerData {
+  avoids: string[]; // User IDs the player explicitly "Blocked/Avoided"
+  groups: string[]; // Group names set by a host, used by the game's group rules
+}
+
+// Stored at submissions/{writerId}_{targetId} - readable by the writer and the hosts,
+// and by everyone once the target is being revealed. The writer's ID is in the document
+// and its ID, so hiding names in the admin panel does not stop hosts finding out.
+export interface SubmissionDoc extends Submission {
+  writerId: string;
+  targetId: string;
+}
+
+export type SubmissionChange = 'edited' | 'withdrawn';
+
+// Stored at submissionHistory/{entryId} - the text a writer replaced by editing or withdrawing
+// a submission. Readable only by the hosts, so earlier versions never reach the reveal
+export interface SubmissionHistoryDoc {
+  writerId: string;
+  targetId: string;
+  answers: Answers;
+  change: SubmissionChange;
+  changedAt: number; // Milliseconds since epoch
+}
+
+// Stored at drafts/{writerId}_{targetId} - autosaved text that has not been submitted yet.
+// Readable only by the writer, so it never shows up in the reveal
+export interface DraftDoc {
+  writerId: string;
+  targetId: string;
+  answers: Answers;
+  savedAt: number; // Milliseconds since epoch
+}
+
+// Client-side view of a player, merged from the documents above.
+// Fields the current user is not allowed to read are left empty.
+export interface PlayerData extends PublicPlayerData, PrivatePlayerData {
+  submissions: Record<string, Submission>; // Keyed by target ID
 }
 
 export interface Player {
@@ -0,0 +1,49 @@
+import { Answers, ContentFilter } from '../types';
+
+// Common profanity and insults, matched as whole words in any letter case
+export const DEFAULT_FILTER_TERMS = [
+  'asshole',
+  'bastard',
+  'bitch',
+  'crap',
+  'cunt',
+  'damn',
+  'dick',
+  'dumb',
+  'fuck',
+  'fucking',
+  'hate you',
+  'idiot',
+  'loser',
+  'moron',
+  'pathetic',
+  'shit',
+  'stupid',
+  'ugly',
+  'useless',
+  'worthless',
+];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * The filter terms found in a submission's answers, lowercased and without duplicates.
+ * Returns nothing when the filter is off.
+ */
+export function findFlaggedTerms(answers: Answers, filter: ContentFilter | undefined): string[] {
+  if (!filter?.enabled) {
+    return [];
+  }
+  const text = Object.values(answers).join('\n').toLowerCase();
+  const terms = new Set(
+    [...DEFAULT_FILTER_TERMS, ...filter.keywords]
+      .map(term => term.trim().toLowerCase())
+      .filter(Boolean)
+  );
+  return [...terms].filter(term => new RegExp(`(^|\\W)${escapeRegExp(term)}(\\W|$)`).test(text));
+}
+
+/** Parse the admin panel's comma or newline separated keyword list */
+export function parseFilterKeywords(input: string): string[] {
+  return [...new Set(input.split(/[,\n]/).map(keyword => keyword.trim().toLowerCase()).filter(Boolean))];
+}
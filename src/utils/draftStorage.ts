@@ -0,0 +1,54 @@
+import { DraftDoc } from '../types';
+
+/**
+ * Reflection drafts kept in localStorage, so text survives a refresh or crash even
+ * while offline. Keyed by room, writer and target. savedAt picks the newer of the
+ * local and Firestore copies.
+ */
+export type Draft = Pick<DraftDoc, 'answers' | 'savedAt'>;
+
+const DRAFT_KEY_PREFIX = 'reflections-draft';
+
+const getDraftKey = (roomId: string, writerId: string, targetId: string) =>
+  `${DRAFT_KEY_PREFIX}:${roomId}:${writerId}:${targetId}`;
+
+export function saveLocalDraft(roomId: string, writerId: string, targetId: string, draft: Draft) {
+  try {
+    localStorage.setItem(getDraftKey(roomId, writerId, targetId), JSON.stringify(draft));
+  } catch (err) {
+    // Storage can be full or disabled (e.g. private browsing); the Firestore copy still saves
+    console.error('Error saving local draft:', err);
+  }
+}
+
+export function loadLocalDraft(roomId: string, writerId: string, targetId: string): Draft | null {
+  try {
+    const stored = localStorage.getItem(getDraftKey(roomId, writerId, targetId));
+    if (!stored) return null;
+    const draft = JSON.parse(stored) as Draft;
+    return draft.answers && typeof draft.answers === 'object' ? draft : null;
+  } catch (err) {
+    console.error('Error loading local draft:', err);
+    return null;
+  }
+}
+
+/** Remove every draft this device holds for a room, e.g. after the game is reset */
+export function clearLocalDrafts(roomId: string) {
+  try {
+    const roomPrefix = `${DRAFT_KEY_PREFIX}:${roomId}:`;
+    Object.keys(localStorage)
+      .filter(key => key.startsWith(roomPrefix))
+      .forEach(key => localStorage.removeItem(key));
+  } catch (err) {
+    console.error('Error clearing local drafts:', err);
+  }
+}
+
+export function clearLocalDraft(roomId: string, writerId: string, targetId: string) {
+  try {
+    localStorage.removeItem(getDraftKey(roomId, writerId, targetId));
+  } catch (err) {
+    console.error('Error clearing local draft:', err);
+  }
+}
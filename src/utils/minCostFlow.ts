@@ -0,0 +1,123 @@
+/**
+ * Min-cost max-flow over a small directed graph (successive shortest paths with SPFA).
+ * Used by matchmaking to find an exact writer -> target assignment.
+ */
+export interface FlowEdge {
+  to: number;
+  rev: number; // Index of the reverse edge in graph[to]
+  capacity: number; // Remaining (residual) capacity
+  initialCapacity: number;
+  cost: number;
+}
+
+export interface FlowNetwork {
+  graph: FlowEdge[][];
+}
+
+export function createFlowNetwork(nodeCount: number): FlowNetwork {
+  return { graph: Array.from({ length: nodeCount }, () => []) };
+}
+
+/**
+ * Add a directed edge and its residual reverse edge. Returns the forward edge so
+ * callers can read how much flow it carries after solving.
+ */
+export function addFlowEdge(
+  network: FlowNetwork,
+  from: number,
+  to: number,
+  capacity: number,
+  cost: number
+): FlowEdge {
+  const forward: FlowEdge = { to, rev: network.graph[to].length, capacity, initialCapacity: capacity, cost };
+  const backward: FlowEdge = { to: from, rev: network.graph[from].length, capacity: 0, initialCapacity: 0, cost: -cost };
+  network.graph[from].push(forward);
+  network.graph[to].push(backward);
+  return forward;
+}
+
+export function getEdgeFlow(edge: FlowEdge): number {
+  return edge.initialCapacity - edge.capacity;
+}
+
+/**
+ * Push as much flow as possible from source to sink at minimum total cost.
+ * Edges are explored in insertion order, so the result is deterministic.
+ */
+export function solveMinCostMaxFlow(
+  network: FlowNetwork,
+  source: number,
+  sink: number
+): { flow: number; cost: number } {
+  const { graph } = network;
+  const nodeCount = graph.length;
+  let totalFlow = 0;
+  let totalCost = 0;
+
+  for (;;) {
+    // Shortest path by cost in the residual graph (costs may be negative on reverse edges)
+    const distance = new Array<number>(nodeCount).fill(Infinity);
+    const inQueue = new Array<boolean>(nodeCount).fill(false);
+    const previousNode = new Array<number>(nodeCount).fill(-1);
+    const previousEdge = new Array<number>(nodeCount).fill(-1);
+    const queue: number[] = [source];
+    distance[source] = 0;
+    inQueue[source] = true;
+
+    for (let head = 0; head < queue.length; head++) {
+      const node = queue[head];
+      inQueue[node] = false;
+      graph[node].forEach((edge, edgeIndex) => {
+        if (edge.capacity > 0 && distance[node] + edge.cost < distance[edge.to]) {
+          distance[edge.to] = distance[node] + edge.cost;
+          previousNode[edge.to] = node;
+          previousEdge[edge.to] = edgeIndex;
+          if (!inQueue[edge.to]) {
+            inQueue[edge.to] = true;
+            queue.push(edge.to);
+          }
+        }
+      });
+    }
+
+    if (distance[sink] === Infinity) {
+      break;
+    }
+
+    // Find the bottleneck along the path, then augment
+    let pathFlow = Infinity;
+    for (let node = sink; node !== source; node = previousNode[node]) {
+      pathFlow = Math.min(pathFlow, graph[previousNode[node]][previousEdge[node]].capacity);
+    }
+    for (let node = sink; node !== source; node = previousNode[node]) {
+      const edge = graph[previousNode[node]][previousEdge[node]];
+      edge.capacity -= pathFlow;
+      graph[node][edge.rev].capacity += pathFlow;
+    }
+
+    totalFlow += pathFlow;
+    totalCost += pathFlow * distance[sink];
+  }
+
+  return { flow: totalFlow, cost: totalCost };
+}
+
+/**
+ * After solving, find the nodes still reachable from the source through edges with
+ * remaining capacity. They form the source side of a minimum cut.
+ */
+export function findResidualReachableNodes(network: FlowNetwork, source: number): boolean[] {
+  const reachable = new Array<boolean>(network.graph.length).fill(false);
+  const stack = [source];
+  reachable[source] = true;
+  while (stack.length > 0) {
+    const node = stack.pop()!;
+    network.graph[node].forEach(edge => {
+      if (edge.capacity > 0 && !reachable[edge.to]) {
+        reachable[edge.to] = true;
+        stack.push(edge.to);
+      }
+    });
+  }
+  return reachable;
+}
@@ -1,6 +1,10 @@
+import { Player } from '../types';
+import { AssignmentConstraints, getWriteQuota, runMatchmaking } from '../matchmaking';
+import { createSeededRandom, seededShuffle } from './random';
+
 /**
- * Calculate optimal maxPreferences and maxAvoids based on player count and targets per player
- * to minimize matchmaking conflicts
+ * Calculate optimal maxPreferences and maxAvoids based on player count and write quotas
+ * (targets per player, or each player's own quota) to minimize matchmaking conflicts
  */
 export interface OptimalConfig {
   maxPreferences: number;
@@ -10,7 +14,9 @@ export interface OptimalConfig {
 
 export function calculateOptimalConfig(
   playerCount: number,
-  targetsPerPlayer: number
+  targetsPerPlayer: number,
+  writeQuotas: number[] = [], // Each player's resolved quota; empty when everyone writes targetsPerPlayer
+  minReceived: number = 1
 ): OptimalConfig {
   const reasoning: string[] = [];
   
@@ -30,22 +36,38 @@ export function calculateOptimalConfig(
     };
   }
 
-  // Each player needs at least N valid candidates (players not in their avoids list)
+  // Each player needs at least as many valid candidates (players not in their avoids list)
+  // as their quota, and maxAvoids applies to everyone, so the largest quota decides
   // Valid candidates = Total players - 1 (exclude self) - avoids
-  // So: (playerCount - 1 - maxAvoids) >= targetsPerPlayer
-  // Therefore: maxAvoids <= (playerCount - 1 - targetsPerPlayer)
+  // So: (playerCount - 1 - maxAvoids) >= largestQuota
+  // Therefore: maxAvoids <= (playerCount - 1 - largestQuota)
+  const largestQuota = Math.max(targetsPerPlayer, ...writeQuotas);
+  const totalWrites = writeQuotas.length > 0
+    ? writeQuotas.reduce((total, quota) => total + quota, 0)
+    : playerCount * targetsPerPlayer;
+  const fairShare = Math.max(minReceived, Math.ceil(totalWrites / playerCount));
   
-  const maxPossibleAvoids = Math.max(0, playerCount - 1 - targetsPerPlayer);
+  const maxPossibleAvoids = Math.max(0, playerCount - 1 - largestQuota);
   
   // For a safe margin, we'll use 80% of the maximum to leave some buffer
   const safeMaxAvoids = Math.floor(maxPossibleAvoids * 0.8);
   
   reasoning.push(
-    `With ${playerCount} players, each player needs at least ${targetsPerPlayer} valid candidates.`
+    largestQuota === targetsPerPlayer
+      ? `With ${playerCount} players, each player needs at least ${targetsPerPlayer} valid candidates.`
+      : `With ${playerCount} players, the player with the largest quota needs at least ${largestQuota} valid candidates.`
+  );
+  reasoning.push(
+    `Maximum possible avoids per player: ${maxPossibleAvoids} (to ensure ${largestQuota} valid candidates remain).`
   );
   reasoning.push(
-    `Maximum possible avoids per player: ${maxPossibleAvoids} (to ensure ${targetsPerPlayer} valid candidates remain).`
+    `Players write ${totalWrites} reflections in total, so everyone receives between ${minReceived} and ${fairShare}.`
   );
+  if (minReceived * playerCount > totalWrites) {
+    reasoning.push(
+      `⚠️ That is not enough for all ${playerCount} players to receive ${minReceived}: raise some write quotas or lower the minimum.`
+    );
+  }
   
   // For preferences, we can be more generous
   // A reasonable limit is about 50-70% of other players
@@ -80,7 +102,7 @@ export function calculateOptimalConfig(
       maxPreferences: suggestedMaxPreferences,
       maxAvoids: 0,
       reasoning: [
-        `With ${playerCount} players and ${targetsPerPlayer} targets per player,`,
+        `With ${playerCount} players and up to ${largestQuota} targets per player,`,
         'players cannot avoid anyone (would leave insufficient candidates).',
         `Suggested max preferences: ${suggestedMaxPreferences}`,
       ],
@@ -94,3 +116,180 @@ export function calculateOptimalConfig(
   };
 }
 
+
+export interface SimulatedConfig {
+  targetsPerPlayer: number;
+  maxPreferences: number;
+  maxAvoids: number;
+  successRate: number; // Share of simulated games where matchmaking succeeded (0-1)
+  preferenceHitRate: number; // Average share of assignments that hit a Merry Pick in successful games
+}
+
+export interface ConfigSimulationOptions extends AssignmentConstraints {
+  maxPreferences: number; // The current limits, to estimate how they fare
+  maxAvoids: number;
+  simulations?: number; // Simulated games per candidate config
+  targetSuccessRate?: number; // Success rate a recommended config must reach
+  seed?: number;
+}
+
+export interface ConfigSimulationResult {
+  current: SimulatedConfig;
+  recommended: SimulatedConfig | null; // Null when no candidate reaches the target success rate
+  candidates: SimulatedConfig[]; // Best config found for each candidate targets per player
+  reasoning: string[];
+}
+
+const DEFAULT_SIMULATIONS = 20;
+const DEFAULT_TARGET_SUCCESS_RATE = 0.95;
+// Fewer Merry Picks are recommended when they hit almost as often as the best candidate
+const PREFERENCE_HIT_RATE_TOLERANCE = 0.05;
+
+/**
+ * Fill a player's choices up to the limits with random ones, as if everyone used their
+ * full allowance. Choices the player already made are kept (up to the limits).
+ */
+function simulateChoices(player: Player, players: Player[], maxPreferences: number, maxAvoids: number, random: () => number): Player {
+  const others = seededShuffle(players.filter(p => p.uid !== player.uid).map(p => p.uid), random);
+  const avoids = player.data.avoids.slice(0, maxAvoids);
+  others.forEach(uid => {
+    if (avoids.length < maxAvoids && !avoids.includes(uid)) avoids.push(uid);
+  });
+  const preferences = player.data.preferences.filter(uid => !avoids.includes(uid)).slice(0, maxPreferences);
+  others.forEach(uid => {
+    if (preferences.length < maxPreferences && !preferences.includes(uid) && !avoids.includes(uid)) preferences.push(uid);
+  });
+  return { uid: player.uid, data: { ...player.data, preferences, avoids } };
+}
+
+/**
+ * Run seeded matchmaking simulations of the current players under one config
+ */
+function simulateConfig(
+  players: Player[],
+  config: Pick<SimulatedConfig, 'targetsPerPlayer' | 'maxPreferences' | 'maxAvoids'>,
+  options: ConfigSimulationOptions
+): SimulatedConfig {
+  const simulations = options.simulations ?? DEFAULT_SIMULATIONS;
+  // The same seed for every config, so candidates are compared on the same random games
+  const random = createSeededRandom(options.seed ?? 0);
+  let successes = 0;
+  let preferenceHitRateTotal = 0;
+  for (let simulation = 0; simulation < simulations; simulation++) {
+    const simulatedPlayers = players.map(player =>
+      simulateChoices(player, players, config.maxPreferences, config.maxAvoids, random)
+    );
+    const result = runMatchmaking(simulatedPlayers, config.targetsPerPlayer, {
+      pairingRule: options.pairingRule,
+      includeThreeCycles: options.includeThreeCycles,
+      minReceived: options.minReceived,
+      groupRules: options.groupRules,
+      seed: Math.floor(random() * 4294967296),
+      quiet: true,
+    });
+    if (result.feasible) {
+      successes++;
+      preferenceHitRateTotal += result.report.preferenceHitRate;
+    }
+  }
+  return {
+    ...config,
+    successRate: successes / simulations,
+    preferenceHitRate: successes > 0 ? preferenceHitRateTotal / successes : 0,
+  };
+}
+
+// Let the browser repaint between simulated configs, each of which runs a full batch of games
+const yieldToBrowser = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+/**
+ * Recommend a config from simulated games rather than fixed ratios. Each simulation keeps
+ * the current players, their write quotas, groups and any choices they already made, and
+ * gives everyone random Merry Picks and Skip this round choices up to the limits. For
+ * targets per player around the current value, a binary search finds the most Skip this
+ * round choices that still reach the target success rate (success only gets less likely
+ * with more avoids); then the fewest Merry Picks that hit about as often as the most.
+ */
+export async function simulateOptimalConfig(
+  players: Player[],
+  targetsPerPlayer: number,
+  options: ConfigSimulationOptions
+): Promise<ConfigSimulationResult> {
+  const playerCount = players.length;
+  const targetSuccessRate = options.targetSuccessRate ?? DEFAULT_TARGET_SUCCESS_RATE;
+  const formatRate = (rate: number) => `${Math.round(rate * 100)}%`;
+  await yieldToBrowser();
+  const current = simulateConfig(
+    players,
+    { targetsPerPlayer, maxPreferences: options.maxPreferences, maxAvoids: options.maxAvoids },
+    options
+  );
+  const reasoning = [
+    `Simulated ${options.simulations ?? DEFAULT_SIMULATIONS} games per candidate with the current ${playerCount} players, where everyone uses their full allowance of random choices.`,
+    `The current config succeeds in ${formatRate(current.successRate)} of simulated games.`,
+  ];
+
+  const targetCandidates = [targetsPerPlayer - 1, targetsPerPlayer, targetsPerPlayer + 1]
+    .filter(n => n >= 1 && n <= playerCount - 1);
+  const candidates: SimulatedConfig[] = [];
+
+  for (const n of targetCandidates) {
+    const largestQuota = Math.max(n, ...players.map(p => getWriteQuota(p, n)));
+    const defaultPreferences = Math.min(Math.ceil((playerCount - 1) * 0.6), playerCount - 1);
+    const evaluate = async (maxAvoids: number, maxPreferences: number = Math.min(defaultPreferences, playerCount - 1 - maxAvoids)) => {
+      await yieldToBrowser();
+      return simulateConfig(players, { targetsPerPlayer: n, maxPreferences, maxAvoids }, options);
+    };
+
+    // Binary search for the most avoids that still reach the target success rate
+    let best = await evaluate(0);
+    if (best.successRate < targetSuccessRate) {
+      candidates.push(best);
+      continue;
+    }
+    let low = 0;
+    let high = Math.max(0, playerCount - 1 - largestQuota);
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      const result = await evaluate(middle);
+      if (result.successRate >= targetSuccessRate) {
+        low = middle;
+        best = result;
+      } else {
+        high = middle - 1;
+      }
+    }
+
+    // Merry Picks don't change whether matching succeeds, only how many assignments hit one
+    const preferenceCandidates: SimulatedConfig[] = [];
+    const preferenceLimits = [...new Set([n, 2 * n, defaultPreferences])]
+      .filter(maxPreferences => maxPreferences <= playerCount - 1 - best.maxAvoids)
+      .sort((a, b) => a - b);
+    for (const maxPreferences of preferenceLimits) {
+      preferenceCandidates.push(await evaluate(best.maxAvoids, maxPreferences));
+    }
+    const bestHitRate = Math.max(best.preferenceHitRate, ...preferenceCandidates.map(c => c.preferenceHitRate));
+    candidates.push(
+      preferenceCandidates.find(c => c.preferenceHitRate >= bestHitRate - PREFERENCE_HIT_RATE_TOLERANCE) ?? best
+    );
+  }
+
+  // Keep the host's targets per player when it works; otherwise the most writing that does
+  const reachesTarget = candidates.filter(c => c.successRate >= targetSuccessRate);
+  const recommended = reachesTarget.find(c => c.targetsPerPlayer === targetsPerPlayer) ??
+    reachesTarget.sort((a, b) => b.targetsPerPlayer - a.targetsPerPlayer)[0] ??
+    null;
+
+  candidates.forEach(c => {
+    reasoning.push(
+      `${c.targetsPerPlayer} targets per player: up to ${c.maxAvoids} Skip this round and ${c.maxPreferences} Merry Picks succeed in ${formatRate(c.successRate)} of games, with ${formatRate(c.preferenceHitRate)} of assignments hitting a Merry Pick.`
+    );
+  });
+  if (!recommended) {
+    reasoning.push(
+      `⚠️ No candidate reaches a ${formatRate(targetSuccessRate)} success rate, even without Skip this round choices: check write quotas, group rules and the pairing rule.`
+    );
+  }
+
+  return { current, recommended, candidates, reasoning };
+}
@@ -0,0 +1,36 @@
+/**
+ * Seeded pseudo-random helpers so matchmaking runs can be reproduced exactly
+ */
+
+/**
+ * Create a deterministic random number generator (mulberry32) returning values in [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Fisher-Yates shuffle driven by the given random number generator
+ */
+export function seededShuffle<T>(array: T[], random: () => number): T[] {
+  const shuffled = [...array];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Pick a fresh 32-bit seed
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
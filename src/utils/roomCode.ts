@@ -0,0 +1,23 @@
+/**
+ * Short join codes used to key rooms (e.g. /r/K7QX2M).
+ * Ambiguous characters (0/O, 1/I/L) are left out so codes can be read aloud.
+ */
+const ROOM_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+export const ROOM_CODE_LENGTH = 6;
+
+export function generateRoomCode(): string {
+  let code = '';
+  for (let i = 0; i < ROOM_CODE_LENGTH; i++) {
+    code += ROOM_CODE_ALPHABET[Math.floor(Math.random() * ROOM_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+export function normalizeRoomCode(input: string): string {
+  return input.trim().toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+export function isValidRoomCode(code: string): boolean {
+  if (code.length !== ROOM_CODE_LENGTH) return false;
+  return [...code].every(char => ROOM_CODE_ALPHABET.includes(char));
+}
@@ -0,0 +1,72 @@
+import { Player } from '../types';
+
+export interface WriterProgress {
+  playerId: string;
+  playerName: string;
+  submitted: number;
+  assigned: number;
+}
+
+export interface TargetProgress {
+  playerId: string;
+  playerName: string;
+  received: number;
+  expected: number; // Number of writers assigned to this player
+}
+
+export interface WritingProgress {
+  submitted: number;
+  assigned: number;
+  completionRate: number; // 0-1; 1 when nothing is assigned
+  writers: WriterProgress[]; // Least complete first
+  incompleteTargets: TargetProgress[]; // Players still waiting for reflections, fewest received first
+}
+
+/**
+ * Summarize how much of the WRITING phase is done, from the host's view of the players
+ * (which includes every submission)
+ */
+export function getWritingProgress(players: Player[]): WritingProgress {
+  const receivedByTarget = new Map<string, number>(players.map(p => [p.uid, 0]));
+  const expectedByTarget = new Map<string, number>(players.map(p => [p.uid, 0]));
+
+  const writers: WriterProgress[] = players
+    .filter(player => player.data.assignments.length > 0)
+    .map(player => {
+      let submitted = 0;
+      player.data.assignments.forEach(targetId => {
+        expectedByTarget.set(targetId, (expectedByTarget.get(targetId) || 0) + 1);
+        if (targetId in player.data.submissions) {
+          receivedByTarget.set(targetId, (receivedByTarget.get(targetId) || 0) + 1);
+          submitted++;
+        }
+      });
+      return {
+        playerId: player.uid,
+        playerName: player.data.name,
+        submitted,
+        assigned: player.data.assignments.length,
+      };
+    })
+    .sort((a, b) => a.submitted / a.assigned - b.submitted / b.assigned || a.playerName.localeCompare(b.playerName));
+
+  const incompleteTargets: TargetProgress[] = players
+    .map(player => ({
+      playerId: player.uid,
+      playerName: player.data.name,
+      received: receivedByTarget.get(player.uid) || 0,
+      expected: expectedByTarget.get(player.uid) || 0,
+    }))
+    .filter(target => target.received < target.expected)
+    .sort((a, b) => a.received - b.received || a.playerName.localeCompare(b.playerName));
+
+  const assigned = writers.reduce((sum, writer) => sum + writer.assigned, 0);
+  const submitted = writers.reduce((sum, writer) => sum + writer.submitted, 0);
+  return {
+    submitted,
+    assigned,
+    completionRate: assigned === 0 ? 1 : submitted / assigned,
+    writers,
+    incompleteTargets,
+  };
+}
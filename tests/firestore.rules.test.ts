@@ -0,0 +1,219 @@
+import { readFileSync } from 'node:fs';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestContext,
+  RulesTestEnvironment,
+} from '@firebase/rules-unit-testing';
+import { GameStatus } from '../src/types';
+
+/**
+ * Runs firestore.rules against the Firestore emulator: `npm run test:rules`.
+ *
+ * Every phase starts from the same room: "host" owns it, Alice and Bob are assigned to
+ * each other, Bob has submitted about Alice, Alice has a draft about Bob and Alice is the
+ * current reveal. Carol is signed in but has not joined.
+ */
+
+type Db = ReturnType<RulesTestContext['firestore']>;
+
+const ROOM = 'christmas-metaphor/ROOM42';
+const PHASES: GameStatus[] = ['LOBBY', 'PREFERENCES', 'WRITING', 'REVEAL'];
+
+let testEnv: RulesTestEnvironment;
+
+const seedRoom = (status: GameStatus) =>
+  testEnv.withSecurityRulesDisabled(async (context) => {
+    const db = context.firestore();
+    await db.doc(ROOM).set({
+      status,
+      ownerId: 'host',
+      currentRevealId: 'alice',
+      config: { targetsPerPlayer: 1, maxPreferences: 1, maxAvoids: 1 },
+    });
+    await db.doc(`${ROOM}/players/alice`).set({ name: 'Alice', preferences: [], assignments: ['bob'] });
+    await db.doc(`${ROOM}/players/bob`).set({ name: 'Bob', preferences: [], assignments: ['alice'] });
+    await db.doc(`${ROOM}/privatePlayerData/alice`).set({ avoids: [], groups: [] });
+    await db.doc(`${ROOM}/submissions/bob_alice`).set({
+      writerId: 'bob',
+      targetId: 'alice',
+      answers: { reality: 'Kind and funny' },
+      hidden: false,
+    });
+    await db.doc(`${ROOM}/drafts/alice_bob`).set({
+      writerId: 'alice',
+      targetId: 'bob',
+      answers: { reality: 'Half a thought' },
+      savedAt: 1,
+    });
+  });
+
+const as = (uid: string): Db => testEnv.authenticatedContext(uid).firestore();
+
+// assertSucceeds or assertFails, depending on whether the phase should allow the request
+const expectAllowed = (request: Promise<unknown>, allowed: boolean) =>
+  allowed ? assertSucceeds(request) : assertFails(request);
+
+beforeAll(async () => {
+  testEnv = await initializeTestEnvironment({
+    projectId: 'demo-reflections',
+    firestore: { rules: readFileSync('firestore.rules', 'utf8') },
+  });
+});
+
+afterAll(async () => {
+  await testEnv?.cleanup();
+});
+
+describe.each(PHASES)('during %s', (status) => {
+  const isPreferences = status === 'PREFERENCES';
+  const isWriting = status === 'WRITING';
+  const isReveal = status === 'REVEAL';
+  const isBeforeMatchmaking = status === 'LOBBY' || status === 'PREFERENCES';
+
+  beforeEach(async () => {
+    await testEnv.clearFirestore();
+    await seedRoom(status);
+  });
+
+  describe('players', () => {
+    it('lets a newcomer join as themselves', async () => {
+      await assertSucceeds(as('carol').doc(`${ROOM}/players/carol`).set({ name: 'Carol', preferences: [], assignments: [] }));
+    });
+
+    it('does not let a newcomer join with assignments or as someone else', async () => {
+      await assertFails(as('carol').doc(`${ROOM}/players/carol`).set({ name: 'Carol', preferences: [], assignments: ['alice'] }));
+      await assertFails(as('carol').doc(`${ROOM}/players/dave`).set({ name: 'Dave', preferences: [], assignments: [] }));
+    });
+
+    it('lets players rename themselves but not others', async () => {
+      await assertSucceeds(as('alice').doc(`${ROOM}/players/alice`).update({ name: 'Ally' }));
+      await assertFails(as('alice').doc(`${ROOM}/players/bob`).update({ name: 'Bobby' }));
+    });
+
+    it('only takes preferences during PREFERENCES, within the limit', async () => {
+      await expectAllowed(as('alice').doc(`${ROOM}/players/alice`).update({ preferences: ['bob'] }), isPreferences);
+      await assertFails(as('alice').doc(`${ROOM}/players/alice`).update({ preferences: ['bob', 'carol'] }));
+    });
+
+    it('never lets players give themselves assignments', async () => {
+      await assertFails(as('alice').doc(`${ROOM}/players/alice`).update({ assignments: ['bob', 'carol'] }));
+    });
+
+    it('lets players leave only before matchmaking', async () => {
+      await expectAllowed(as('alice').doc(`${ROOM}/players/alice`).delete(), isBeforeMatchmaking);
+    });
+
+    it('lets hosts create players, clear assignments and kick, but not add assignments', async () => {
+      const host = as('host');
+      await assertSucceeds(host.doc(`${ROOM}/players/dummy`).set({ name: 'Dummy', preferences: [], assignments: [] }));
+      await assertFails(host.doc(`${ROOM}/players/alice`).update({ assignments: ['bob', 'dummy'] }));
+      await assertSucceeds(host.doc(`${ROOM}/players/alice`).update({ assignments: [] }));
+      await assertSucceeds(host.doc(`${ROOM}/players/bob`).delete());
+    });
+  });
+
+  describe('avoids', () => {
+    it('are readable only by the player and the hosts', async () => {
+      await assertSucceeds(as('alice').doc(`${ROOM}/privatePlayerData/alice`).get());
+      await assertSucceeds(as('host').doc(`${ROOM}/privatePlayerData/alice`).get());
+      await assertFails(as('bob').doc(`${ROOM}/privatePlayerData/alice`).get());
+    });
+
+    it('only change during PREFERENCES, within the limit', async () => {
+      await expectAllowed(as('alice').doc(`${ROOM}/privatePlayerData/alice`).update({ avoids: ['bob'] }), isPreferences);
+      await assertFails(as('alice').doc(`${ROOM}/privatePlayerData/alice`).update({ avoids: ['bob', 'carol'] }));
+      await assertFails(as('bob').doc(`${ROOM}/privatePlayerData/alice`).update({ avoids: ['bob'] }));
+    });
+
+    it('can start empty in any phase, so late joiners can join', async () => {
+      await assertSucceeds(as('carol').doc(`${ROOM}/privatePlayerData/carol`).set({ avoids: [], groups: [] }));
+    });
+
+    it('keep groups host-only', async () => {
+      await assertFails(as('alice').doc(`${ROOM}/privatePlayerData/alice`).update({ groups: ['managers'] }));
+      await assertSucceeds(as('host').doc(`${ROOM}/privatePlayerData/alice`).update({ groups: ['managers'] }));
+    });
+  });
+
+  describe('submissions', () => {
+    const newSubmission = { writerId: 'alice', targetId: 'bob', answers: { reality: 'Always helpful' }, hidden: false };
+
+    it('can only be written during WRITING, for the writer\'s own assignments', async () => {
+      await expectAllowed(as('alice').doc(`${ROOM}/submissions/alice_bob`).set(newSubmission), isWriting);
+      await assertFails(as('alice').doc(`${ROOM}/submissions/alice_carol`).set({ ...newSubmission, targetId: 'carol' }));
+      await assertFails(as('bob').doc(`${ROOM}/submissions/alice_bob`).set(newSubmission));
+    });
+
+    it('must answer every required prompt', async () => {
+      await assertFails(as('alice').doc(`${ROOM}/submissions/alice_bob`).set({ ...newSubmission, answers: { impression: 'Quiet' } }));
+    });
+
+    it('are hidden from other players until their target is revealed', async () => {
+      await assertSucceeds(as('bob').doc(`${ROOM}/submissions/bob_alice`).get());
+      await assertSucceeds(as('host').doc(`${ROOM}/submissions/bob_alice`).get());
+      await expectAllowed(as('alice').doc(`${ROOM}/submissions/bob_alice`).get(), isReveal);
+      await expectAllowed(as('carol').doc(`${ROOM}/submissions/bob_alice`).get(), isReveal);
+    });
+
+    it('can be edited and withdrawn by their writer only during WRITING', async () => {
+      await expectAllowed(
+        as('bob').doc(`${ROOM}/submissions/bob_alice`).update({ answers: { reality: 'Kinder' }, editCount: 1, editedAt: 2 }),
+        isWriting
+      );
+      await assertFails(as('alice').doc(`${ROOM}/submissions/bob_alice`).update({ answers: { reality: 'Kinder' }, editCount: 1, editedAt: 2 }));
+      await expectAllowed(as('bob').doc(`${ROOM}/submissions/bob_alice`).delete(), isWriting);
+    });
+
+    it('let writers reveal their name only during REVEAL', async () => {
+      await expectAllowed(as('bob').doc(`${ROOM}/submissions/bob_alice`).update({ writerRevealed: true }), isReveal);
+    });
+
+    it('from before moderation stay out of the reveal until a host marks them visible', async () => {
+      await testEnv.withSecurityRulesDisabled(context =>
+        context.firestore().doc(`${ROOM}/submissions/carol_alice`).set({ writerId: 'carol', targetId: 'alice', answers: { reality: 'Old' } })
+      );
+      await assertFails(as('alice').doc(`${ROOM}/submissions/carol_alice`).get());
+      await assertFails(as('alice').doc(`${ROOM}/submissions/carol_alice`).update({ hidden: false }));
+      await assertSucceeds(as('host').doc(`${ROOM}/submissions/carol_alice`).update({ hidden: false }));
+      await expectAllowed(as('alice').doc(`${ROOM}/submissions/carol_alice`).get(), isReveal);
+    });
+
+    it('can be moderated and deleted by hosts, but their text never changed', async () => {
+      const host = as('host');
+      await assertFails(host.doc(`${ROOM}/submissions/bob_alice`).update({ answers: { reality: 'Rewritten' } }));
+      await assertSucceeds(host.doc(`${ROOM}/submissions/bob_alice`).update({ hidden: true, flagged: true }));
+      await assertSucceeds(host.doc(`${ROOM}/submissions/bob_alice`).delete());
+    });
+  });
+
+  describe('drafts', () => {
+    const draft = { writerId: 'alice', targetId: 'bob', answers: { reality: 'More of a thought' }, savedAt: 2 };
+
+    it('are readable only by their writer', async () => {
+      await assertSucceeds(as('alice').doc(`${ROOM}/drafts/alice_bob`).get());
+      await assertFails(as('bob').doc(`${ROOM}/drafts/alice_bob`).get());
+      await assertFails(as('host').doc(`${ROOM}/drafts/alice_bob`).get());
+    });
+
+    it('can only be saved by their writer during WRITING', async () => {
+      await expectAllowed(as('alice').doc(`${ROOM}/drafts/alice_bob`).set(draft), isWriting);
+      await assertFails(as('bob').doc(`${ROOM}/drafts/alice_bob`).set(draft));
+    });
+
+    it('can be deleted by their writer and the hosts', async () => {
+      await assertFails(as('bob').doc(`${ROOM}/drafts/alice_bob`).delete());
+      await assertSucceeds(as('alice').doc(`${ROOM}/drafts/alice_bob`).delete());
+      await assertSucceeds(as('host').doc(`${ROOM}/drafts/bob_alice`).delete());
+    });
+  });
+
+  describe('game', () => {
+    it('can only be changed by hosts', async () => {
+      await assertFails(as('alice').doc(ROOM).update({ status: 'REVEAL' }));
+      await assertSucceeds(as('host').doc(ROOM).update({ currentRevealId: null }));
+    });
+  });
+});
@@ -0,0 +1,259 @@
+import { describe, expect, it } from 'vitest';
+import {
+  analyzeMatchmakingConflict,
+  getAssignmentBounds,
+  repairAssignments,
+  runMatchmaking,
+  validateAssignments,
+} from '../src/matchmaking';
+import { Assignment, GroupRule, Player, PlayerData } from '../src/types';
+
+/**
+ * Unit tests for the matcher in src/matchmaking.ts: `npm test`.
+ * Every run passes a seed, so the expected outputs are exact.
+ */
+
+const makePlayer = (uid: string, data: Partial<PlayerData> = {}): Player => ({
+  uid,
+  data: {
+    name: uid,
+    preferences: [],
+    preferenceStrengths: {},
+    assignments: [],
+    writeQuota: null,
+    avoids: [],
+    groups: [],
+    submissions: {},
+    ...data,
+  },
+});
+
+const makePlayers = (count: number): Player[] =>
+  Array.from({ length: count }, (_, index) => makePlayer(`p${String(index + 1).padStart(2, '0')}`));
+
+const receiveCounts = (players: Player[], assignments: Assignment[]) =>
+  players.map(player => assignments.filter(a => a.targetId === player.uid).length);
+
+const expectFeasible = (result: ReturnType<typeof runMatchmaking>) => {
+  if (!result.feasible) {
+    throw new Error(`Expected an assignment, got: ${result.reason}`);
+  }
+  return result;
+};
+
+describe('runMatchmaking', () => {
+  it('returns the same assignments for the same seed', () => {
+    const players = makePlayers(8).map((player, index, all) => ({
+      ...player,
+      data: { ...player.data, preferences: [all[(index + 3) % all.length].uid] },
+    }));
+
+    const first = expectFeasible(runMatchmaking(players, 2, { seed: 42, quiet: true }));
+    const second = expectFeasible(runMatchmaking(players, 2, { seed: 42, quiet: true }));
+
+    expect(second.seed).toBe(42);
+    expect(second.assignments).toEqual(first.assignments);
+    expect(validateAssignments(players, first.assignments, 2)).toEqual([]);
+  });
+
+  it('never assigns avoided targets', () => {
+    const players = makePlayers(6);
+    players[0].data.avoids = [players[1].uid, players[2].uid];
+    players[3].data.avoids = [players[0].uid];
+
+    const { assignments } = expectFeasible(runMatchmaking(players, 2, { seed: 7, quiet: true }));
+
+    expect(assignments).not.toContainEqual({ writerId: players[0].uid, targetId: players[1].uid });
+    expect(assignments).not.toContainEqual({ writerId: players[0].uid, targetId: players[2].uid });
+    expect(assignments).not.toContainEqual({ writerId: players[3].uid, targetId: players[0].uid });
+    expect(validateAssignments(players, assignments, 2)).toEqual([]);
+  });
+});
+
+describe('write quotas and minReceived', () => {
+  it('spread the total writing evenly for the receive bounds', () => {
+    const players = makePlayers(4);
+    players[0].data.writeQuota = 3;
+
+    const bounds = getAssignmentBounds(players, 1);
+
+    expect(bounds.totalWrites).toBe(6);
+    expect(bounds.minReceived).toBe(1);
+    expect(bounds.maxReceived).toBe(2);
+  });
+
+  it('keep every writer at their quota and every target within the bounds', () => {
+    const players = makePlayers(6);
+    players[0].data.writeQuota = 4;
+    players[1].data.writeQuota = 0;
+
+    const { assignments } = expectFeasible(runMatchmaking(players, 2, { seed: 3, minReceived: 1, quiet: true }));
+
+    expect(players.map(p => assignments.filter(a => a.writerId === p.uid).length)).toEqual([4, 0, 2, 2, 2, 2]);
+    receiveCounts(players, assignments).forEach(count => {
+      expect(count).toBeGreaterThanOrEqual(1);
+      expect(count).toBeLessThanOrEqual(2);
+    });
+  });
+
+  it('fail when players write too little for everyone to reach minReceived', () => {
+    const result = runMatchmaking(makePlayers(4), 1, { seed: 1, minReceived: 2, quiet: true });
+
+    expect(result.feasible).toBe(false);
+  });
+});
+
+describe('group rules', () => {
+  const withinManagers: GroupRule = { type: 'within', group: 'managers' };
+
+  it('keep players in a group from writing about each other', () => {
+    const players = makePlayers(7);
+    players.slice(0, 3).forEach(player => { player.data.groups = ['managers']; });
+    const managerIds = new Set(players.slice(0, 3).map(p => p.uid));
+
+    const { assignments } = expectFeasible(
+      runMatchmaking(players, 2, { seed: 11, groupRules: [withinManagers], quiet: true })
+    );
+
+    expect(assignments.filter(a => managerIds.has(a.writerId) && managerIds.has(a.targetId))).toEqual([]);
+    expect(validateAssignments(players, assignments, 2, { groupRules: [withinManagers] })).toEqual([]);
+  });
+
+  it('are reported when they alone make matching impossible', () => {
+    const players = makePlayers(4);
+    players.slice(0, 3).forEach(player => { player.data.groups = ['managers']; });
+    const rule: GroupRule = { type: 'across', fromGroup: 'managers', toGroup: 'managers' };
+
+    const analysis = analyzeMatchmakingConflict(players, 2, { groupRules: [rule] });
+
+    expect(analysis.hasConflict).toBe(true);
+    expect(analysis.suggestions).toEqual([]);
+    expect(analysis.summary).toContain('relax a group rule');
+  });
+});
+
+describe('analyzeMatchmakingConflict', () => {
+  it('finds no conflict when a valid assignment exists', () => {
+    const analysis = analyzeMatchmakingConflict(makePlayers(5), 2);
+
+    expect(analysis.hasConflict).toBe(false);
+    expect(analysis.violations).toEqual([]);
+  });
+
+  it('names the target nobody can write about and the one avoid to remove', () => {
+    const players = makePlayers(4);
+    const [first, second, third, fourth] = players;
+    [first, second, third].forEach(player => { player.data.avoids = [fourth.uid]; });
+
+    const analysis = analyzeMatchmakingConflict(players, 1);
+
+    expect(analysis.violations).toHaveLength(1);
+    expect(analysis.violations[0]).toMatchObject({ side: 'targets', playerIds: [fourth.uid], required: 1, available: 0 });
+    expect(analysis.suggestions).toHaveLength(1);
+    expect(analysis.suggestions[0].targetPlayerName).toBe(fourth.data.name);
+  });
+
+  it('names the writers who can only write about each other', () => {
+    const players = makePlayers(5);
+    const [first, second, ...others] = players;
+    first.data.avoids = others.map(p => p.uid);
+    second.data.avoids = others.map(p => p.uid);
+
+    const analysis = analyzeMatchmakingConflict(players, 2);
+
+    expect(analysis.violations).toHaveLength(1);
+    expect(analysis.violations[0]).toMatchObject({
+      side: 'writers',
+      playerIds: [first.uid, second.uid],
+      required: 4,
+      available: 2,
+    });
+    // Each of them needs one more target, so two avoids is the fewest that fixes it
+    expect(analysis.suggestions).toHaveLength(2);
+    expect(new Set(analysis.suggestions.map(s => s.playerName))).toEqual(new Set([first.data.name, second.data.name]));
+  });
+});
+
+describe('repairAssignments', () => {
+  it('brings in a late joiner without touching submitted assignments', () => {
+    const players = makePlayers(6);
+    const { assignments } = expectFeasible(runMatchmaking(players, 2, { seed: 5, quiet: true }));
+    const submitted = assignments.filter((_, index) => index % 2 === 0);
+    const withLateJoiner = [...players, makePlayer('late')];
+
+    const result = repairAssignments(withLateJoiner, assignments, submitted, 2, { quiet: true });
+
+    if (!result.feasible) {
+      throw new Error(result.reason);
+    }
+    submitted.forEach(assignment => {
+      expect(result.assignments).toContainEqual(assignment);
+      expect(result.changes.removed).not.toContainEqual(assignment);
+    });
+    expect(result.assignments.filter(a => a.writerId === 'late')).toHaveLength(2);
+    expect(result.assignments.filter(a => a.targetId === 'late')).toHaveLength(2);
+    expect(validateAssignments(withLateJoiner, result.assignments, 2)).toEqual([]);
+  });
+
+  it('fails rather than move a submitted assignment', () => {
+    const players = makePlayers(4);
+    const [first, second, third] = players;
+    // The first writer has already written about two players but only writes one
+    const submitted = [
+      { writerId: first.uid, targetId: second.uid },
+      { writerId: first.uid, targetId: third.uid },
+    ];
+
+    const result = repairAssignments(players, submitted, submitted, 1, { quiet: true });
+
+    expect(result.feasible).toBe(false);
+  });
+});
+
+describe("the 'forbid' pairing rule", () => {
+  it('finds assignments without short cycles whenever writing around a circle would', () => {
+    // 13 >= 3 * 4 + 1, so writing about the next 4 players around a circle is always valid
+    const players = makePlayers(13);
+    const options = { pairingRule: 'forbid' as const, includeThreeCycles: true };
+
+    for (let seed = 0; seed < 20; seed++) {
+      const { assignments, report } = expectFeasible(runMatchmaking(players, 4, { ...options, seed, quiet: true }));
+      expect(report.reciprocalPairs).toEqual([]);
+      expect(report.threeCycles).toEqual([]);
+      expect(validateAssignments(players, assignments, 4, options)).toEqual([]);
+    }
+  });
+
+  it('blames Skip this round choices only when matching succeeds without them', () => {
+    // 5 players writing 2 each use all 10 pairs of players, so one pair skipping each other is fatal
+    const players = makePlayers(5);
+    players[0].data.avoids = [players[1].uid];
+    players[1].data.avoids = [players[0].uid];
+
+    const analysis = analyzeMatchmakingConflict(players, 2, { pairingRule: 'forbid', seed: 1 });
+
+    expect(analysis.hasConflict).toBe(true);
+    expect(analysis.summary).toContain('Skip this round choices');
+  });
+
+  it('does not blame Skip this round choices when nobody made any', () => {
+    const players = makePlayers(5);
+    players.slice(0, 2).forEach(player => { player.data.groups = ['managers']; });
+
+    const analysis = analyzeMatchmakingConflict(players, 2, {
+      pairingRule: 'forbid',
+      groupRules: [{ type: 'within', group: 'managers' }],
+      seed: 1,
+    });
+
+    expect(analysis.hasConflict).toBe(true);
+    expect(analysis.summary).not.toContain('Skip this round');
+    expect(analysis.summary).toContain('did not find');
+  });
+
+  it('fails outright when there are more reflections than pairs of players', () => {
+    const result = runMatchmaking(makePlayers(4), 2, { pairingRule: 'forbid', seed: 1, quiet: true });
+
+    expect(result).toMatchObject({ feasible: false, searchGaveUp: false });
+  });
+});
@@ -0,0 +1,10 @@
+import { configDefaults, defineConfig } from 'vitest/config';
+
+// Unit tests; the security rules tests need the emulator and run with vitest.rules.config.ts
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+    exclude: [...configDefaults.exclude, 'tests/firestore.rules.test.ts'],
+    environment: 'node',
+  },
+});
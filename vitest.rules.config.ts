@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config';
+
+// Security rules tests share one emulator, so files run one at a time
+export default defineConfig({
+  test: {
+    include: ['tests/**/*.test.ts'],
+    environment: 'node',
+    fileParallelism: false,
+    testTimeout: 15000,
+  },
+});